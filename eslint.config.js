@@ -6,7 +6,8 @@ import tseslint from 'typescript-eslint'
 import { defineConfig, globalIgnores } from 'eslint/config'
 
 export default defineConfig([
-  globalIgnores(['dist']),
+  // The edge function copy of the engine is generated by scripts/sync-engine.mjs.
+  globalIgnores(['dist', 'supabase/functions/_shared/engine']),
   {
     files: ['**/*.{ts,tsx}'],
     extends: [
@@ -0,0 +1,323 @@
+// scripts/simulate.ts
+//
+// Plays many AI-vs-AI games headlessly to compare house rules with data instead of opinions.
+//
+//   npm run simulate -- --games 2000 --players 4 --kill-rule fortress
+//   npm run simulate -- --mode Test --steal-level false --json > fortress.json
+//
+// Every game uses seed `--seed + n`, so a run can be repeated exactly.
+
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { Game } from '../src/engine/game.ts';
+import { AIDifficulty, GameMode, MAX_TOKENS_PER_PLAYER, PlayerColor } from '../src/engine/types.ts';
+import type { BoardSquare, GameSettings, KillBonus, MatchFormat } from '../src/engine/types.ts';
+import { SeededRandom } from '../src/engine/random.ts';
+import { boardLayout, validateBoard } from '../src/engine/boardLayout.ts';
+
+// The same seats the app uses for pass and play.
+const SEATS: Record<number, PlayerColor[]> = {
+    2: [PlayerColor.Blue, PlayerColor.Green],
+    3: [PlayerColor.Blue, PlayerColor.Yellow, PlayerColor.Green],
+    4: [PlayerColor.Blue, PlayerColor.Yellow, PlayerColor.Green, PlayerColor.Purple],
+};
+
+const KILL_BONUSES: readonly KillBonus[] = ['none', 'squareValue', 'doubleSquareValue', 'doublePlusLevel', 'stealLevel'];
+
+// Stops a game that somehow never ends (e.g. a Test match that nobody gets out of).
+const MAX_MOVES_PER_GAME = 5000;
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --games <n>               Games to play (default 1000)
+  --players <2-4>           Players per game (default 2)
+  --mode <mode>             T20, 50-50, Test or Custom (default T20)
+  --balls <n>               Custom: balls per player, or "none" to play until all out (default 20)
+  --wickets <n>             Custom: wickets per innings (default 10)
+  --powerplay <n>           Custom: powerplay balls with double runs (default 0)
+  --difficulty <level>      Easy, Medium, Hard or Expert (default Medium)
+  --kill-rule <rule>        jackpot or fortress (default jackpot)
+  --steal-level <bool>      Steal the victim's level on a kill (default true)
+  --super-over-tie <rule>   repeat or shared (default repeat)
+  --innings <mode>          roundRobin or sequential (default roundRobin)
+  --fielders-kill <bool>    Sequential innings: fielders can knock out the batter (default true)
+  --tokens <1-4>            Tokens (batters) per player (default 2)
+  --kill-bonus <bonus>      none, squareValue, doubleSquareValue, doublePlusLevel or stealLevel
+                            (default squareValue)
+  --anti-clockwise <bool>   Allow anti-clockwise rolls (default false)
+  --board <file>            JSON file with the board's squares (default: the standard board)
+  --seed <n>                Seed of the first game (default 1)
+  --json                    Print the report as JSON instead of tables
+`;
+
+type SimulationOptions = {
+    games: number;
+    playerColors: PlayerColor[];
+    mode: GameMode;
+    format?: MatchFormat;
+    difficulty: AIDifficulty;
+    settings: GameSettings;
+    board: readonly BoardSquare[];
+    seed: number;
+};
+
+type SimulationReport = {
+    options: Omit<SimulationOptions, 'playerColors' | 'board'> & { players: number };
+    unfinishedGames: number;
+    averageMoves: number;
+    averageWickets: number;
+    averageKills: number;
+    killsPerMove: number;
+    superOverGames: number;
+    tiedGames: number;
+    drawnGames: number;
+    seats: { color: PlayerColor; averageScore: number; averageWickets: number; winRate: number }[];
+    firstSeatWinRate: number;
+    squares: { index: number; type: string; value: number; landingRate: number }[];
+};
+
+const parseBoolean = (name: string, value: string): boolean => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    throw new Error(`--${name} must be true or false, got "${value}"`);
+};
+
+const parseChoice = <T extends string>(name: string, value: string, choices: readonly T[]): T => {
+    const choice = choices.find(c => c === value);
+    if (!choice) throw new Error(`--${name} must be one of ${choices.join(', ')}, got "${value}"`);
+    return choice;
+};
+
+const parseCount = (name: string, value: string, min: number): number => {
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < min) throw new Error(`--${name} must be a whole number of at least ${min}, got "${value}"`);
+    return count;
+};
+
+const parseOptions = (): { options: SimulationOptions; json: boolean } => {
+    const { values } = parseArgs({
+        options: {
+            games: { type: 'string', default: '1000' },
+            players: { type: 'string', default: '2' },
+            mode: { type: 'string', default: GameMode.T20 },
+            balls: { type: 'string', default: '20' },
+            wickets: { type: 'string', default: '10' },
+            powerplay: { type: 'string', default: '0' },
+            difficulty: { type: 'string', default: AIDifficulty.Medium },
+            'kill-rule': { type: 'string', default: 'jackpot' },
+            'steal-level': { type: 'string', default: 'true' },
+            'kill-bonus': { type: 'string', default: 'squareValue' },
+            tokens: { type: 'string', default: '2' },
+            'super-over-tie': { type: 'string', default: 'repeat' },
+            innings: { type: 'string', default: 'roundRobin' },
+            'fielders-kill': { type: 'string', default: 'true' },
+            'anti-clockwise': { type: 'string', default: 'false' },
+            board: { type: 'string' },
+            seed: { type: 'string', default: '1' },
+            json: { type: 'boolean', default: false },
+            help: { type: 'boolean', default: false },
+        },
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        process.exit(0);
+    }
+
+    const games = Number(values.games);
+    if (!Number.isInteger(games) || games < 1) throw new Error(`--games must be a positive whole number, got "${values.games}"`);
+    const playerColors = SEATS[Number(values.players)];
+    if (!playerColors) throw new Error(`--players must be 2, 3 or 4, got "${values.players}"`);
+    const tokensPerPlayer = Number(values.tokens);
+    if (!Number.isInteger(tokensPerPlayer) || tokensPerPlayer < 1 || tokensPerPlayer > MAX_TOKENS_PER_PLAYER) {
+        throw new Error(`--tokens must be 1 to ${MAX_TOKENS_PER_PLAYER}, got "${values.tokens}"`);
+    }
+    const mode = parseChoice('mode', values.mode, Object.values(GameMode));
+    const format = mode === GameMode.Custom ? {
+        ballsPerPlayer: values.balls === 'none' ? null : parseCount('balls', values.balls, 1),
+        wicketsPerInnings: parseCount('wickets', values.wickets, 1),
+        powerplayBalls: parseCount('powerplay', values.powerplay, 0),
+    } : undefined;
+    const seed = Number(values.seed);
+    if (!Number.isInteger(seed)) throw new Error(`--seed must be a whole number, got "${values.seed}"`);
+    const board: BoardSquare[] = values.board ? JSON.parse(readFileSync(values.board, 'utf8')) : [...boardLayout];
+    const problems = validateBoard(board);
+    if (problems.length > 0) throw new Error(`${values.board} is not a valid board:\n  ${problems.join('\n  ')}`);
+
+    return {
+        json: values.json,
+        options: {
+            games,
+            playerColors,
+            mode,
+            format,
+            difficulty: parseChoice('difficulty', values.difficulty, Object.values(AIDifficulty)),
+            settings: {
+                allowAntiClockwise: parseBoolean('anti-clockwise', values['anti-clockwise']),
+                killRule: parseChoice('kill-rule', values['kill-rule'], ['jackpot', 'fortress'] as const),
+                stealLevelOnKill: parseBoolean('steal-level', values['steal-level']),
+                killBonus: parseChoice('kill-bonus', values['kill-bonus'], KILL_BONUSES),
+                tokensPerPlayer,
+                superOverTieRule: parseChoice('super-over-tie', values['super-over-tie'], ['repeat', 'shared'] as const),
+                inningsMode: parseChoice('innings', values.innings, ['roundRobin', 'sequential'] as const),
+                fieldersCanKill: parseBoolean('fielders-kill', values['fielders-kill']),
+            },
+            board,
+            seed,
+        },
+    };
+};
+
+/**
+ * Plays one game to the end with every seat controlled by the AI.
+ * @returns The finished game, or null if it hit the move limit.
+ */
+const playGame = (options: SimulationOptions, seed: number): Game | null => {
+    const game = new Game(options.mode, options.playerColors, options.settings, undefined, { random: new SeededRandom(seed), board: options.board, format: options.format });
+    game.aiDifficulty = options.difficulty;
+
+    while (!game.isGameOver) {
+        if (game.history.length >= MAX_MOVES_PER_GAME) return null;
+        if (!game.isInPlay(game.getCurrentPlayer())) {
+            game.advanceToNextPlayer();
+            continue;
+        }
+        if (game.shouldAIDeclare()) {
+            game.declareInnings();
+            continue;
+        }
+        const diceResult = game.rollDice();
+        game.playTurn(game.makeAIDecision(diceResult), diceResult);
+    }
+    return game;
+};
+
+const simulate = (options: SimulationOptions): SimulationReport => {
+    const seatCount = options.playerColors.length;
+    const seatScores = new Array(seatCount).fill(0);
+    const seatWickets = new Array(seatCount).fill(0);
+    const seatWins = new Array(seatCount).fill(0);
+    let finishedGames = 0;
+    let superOverGames = 0;
+    let tiedGames = 0;
+    let drawnGames = 0;
+    let totalMoves = 0;
+    let totalKills = 0;
+    let board: Game['board'] = [];
+    let landings: number[] = [];
+
+    for (let n = 0; n < options.games; n++) {
+        const game = playGame(options, options.seed + n);
+        if (!game) continue;
+
+        finishedGames++;
+        board = game.board;
+        if (landings.length === 0) landings = new Array(board.length).fill(0);
+
+        game.players.forEach((player, seat) => {
+            seatScores[seat] += player.score;
+            seatWickets[seat] += player.wickets;
+        });
+
+        const result = game.getResult();
+        if (game.superOvers.length > 0) superOverGames++;
+        if (result.decidedBy === 'tie') {
+            tiedGames++;
+        } else if (result.decidedBy === 'draw') {
+            drawnGames++;
+        } else {
+            seatWins[game.players.findIndex(p => p.id === result.winnerIds[0])]++;
+        }
+
+        totalMoves += game.history.length;
+        game.history.forEach(move => {
+            totalKills += move.kills.length;
+            landings[move.to]++;
+        });
+    }
+
+    const perGame = (total: number) => finishedGames > 0 ? total / finishedGames : 0;
+
+    return {
+        options: {
+            games: options.games,
+            players: seatCount,
+            mode: options.mode,
+            format: options.format,
+            difficulty: options.difficulty,
+            settings: options.settings,
+            seed: options.seed,
+        },
+        unfinishedGames: options.games - finishedGames,
+        averageMoves: perGame(totalMoves),
+        averageWickets: perGame(seatWickets.reduce((a, b) => a + b, 0)),
+        averageKills: perGame(totalKills),
+        killsPerMove: totalMoves > 0 ? totalKills / totalMoves : 0,
+        superOverGames,
+        tiedGames,
+        drawnGames,
+        seats: options.playerColors.map((color, seat) => ({
+            color,
+            averageScore: perGame(seatScores[seat]),
+            averageWickets: perGame(seatWickets[seat]),
+            winRate: perGame(seatWins[seat]),
+        })),
+        firstSeatWinRate: perGame(seatWins[0]),
+        squares: board.map(square => ({
+            index: square.index,
+            type: square.type,
+            value: square.value,
+            landingRate: totalMoves > 0 ? landings[square.index] / totalMoves : 0,
+        })),
+    };
+};
+
+const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+const round = (value: number) => Number(value.toFixed(2));
+
+const printReport = (report: SimulationReport) => {
+    const { options } = report;
+    console.log(`${options.games} games · ${options.players} players · ${options.mode} · ${options.difficulty} AI · seed ${options.seed}`);
+    if (options.format) console.log(`Format: ${JSON.stringify(options.format)}`);
+    console.log(`Rules: ${JSON.stringify(options.settings)}\n`);
+
+    console.table({
+        'Average moves per game': round(report.averageMoves),
+        'Wickets per game': round(report.averageWickets),
+        'Kills per game': round(report.averageKills),
+        'Kill rate (per move)': percent(report.killsPerMove),
+        'First seat win rate': percent(report.firstSeatWinRate),
+        'Games with a Super Over': report.superOverGames,
+        'Tied games': report.tiedGames,
+        'Drawn games': report.drawnGames,
+        'Unfinished games': report.unfinishedGames,
+    });
+
+    console.table(report.seats.map(seat => ({
+        Seat: seat.color,
+        'Avg score': round(seat.averageScore),
+        'Avg wickets': round(seat.averageWickets),
+        'Win rate': percent(seat.winRate),
+    })));
+
+    console.table(report.squares.map(square => ({
+        Square: square.index,
+        Type: square.type,
+        Value: square.value,
+        Landings: percent(square.landingRate),
+    })));
+};
+
+try {
+    const { options, json } = parseOptions();
+    const report = simulate(options);
+    if (json) {
+        console.log(JSON.stringify(report, null, 2));
+    } else {
+        printReport(report);
+    }
+} catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(`\n${USAGE}`);
+    process.exit(1);
+}
@@ -0,0 +1,53 @@
+// scripts/sync-engine.mjs
+//
+// The rules engine lives in src/engine and is shared by the Vite app and the Supabase
+// edge functions. Edge functions can only bundle code from inside supabase/functions,
+// so this script mirrors the engine into supabase/functions/_shared/engine.
+//
+//   node scripts/sync-engine.mjs          copy src/engine over the edge function copy
+//   node scripts/sync-engine.mjs --check  fail if the two copies differ (run by `npm run build`)
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const sourceDir = join(root, 'src', 'engine');
+const mirrorDir = join(root, 'supabase', 'functions', '_shared', 'engine');
+
+// Tests run against src/engine only, so they are not mirrored.
+const listFiles = (dir) => existsSync(dir) ? readdirSync(dir).filter(name => name.endsWith('.ts') && !name.endsWith('.test.ts')).sort() : [];
+
+const sourceFiles = listFiles(sourceDir);
+const mirrorFiles = listFiles(mirrorDir);
+
+if (process.argv.includes('--check')) {
+    const problems = [];
+    for (const name of sourceFiles) {
+        if (!mirrorFiles.includes(name)) {
+            problems.push(`missing ${name}`);
+        } else if (readFileSync(join(sourceDir, name), 'utf8') !== readFileSync(join(mirrorDir, name), 'utf8')) {
+            problems.push(`changed ${name}`);
+        }
+    }
+    for (const name of mirrorFiles) {
+        if (!sourceFiles.includes(name)) problems.push(`unexpected ${name}`);
+    }
+
+    if (problems.length > 0) {
+        console.error(`${relative(root, mirrorDir)} is out of sync with ${relative(root, sourceDir)}:`);
+        problems.forEach(problem => console.error(`  - ${problem}`));
+        console.error('Run `npm run sync:engine` and commit the result.');
+        process.exit(1);
+    }
+    console.log('Engine copies are in sync.');
+} else {
+    mkdirSync(mirrorDir, { recursive: true });
+    for (const name of mirrorFiles) {
+        if (!sourceFiles.includes(name)) rmSync(join(mirrorDir, name));
+    }
+    for (const name of sourceFiles) {
+        writeFileSync(join(mirrorDir, name), readFileSync(join(sourceDir, name), 'utf8'));
+    }
+    console.log(`Copied ${sourceFiles.length} engine files to ${relative(root, mirrorDir)}.`);
+}
@@ -1,13 +1,30 @@
 import { useState, useMemo, useEffect, useRef } from 'react'; // Import useRef
-import { Game } from './game';
-import { GameMode, PlayerColor, SquareType, Direction } from './types';
-import type { DiceResult, PlayerToken, IPlayer, AnimatingToken as AnimatingTokenData, GameSettings, BoardSquare } from './types';
+import { Game, getSeatColors } from './engine/game';
+import type { GameSnapshot } from './engine/game';
+import { AIDifficulty, GameMode, PlayerColor, SquareType, Direction, MAX_TOKENS_PER_PLAYER } from './engine/types';
+import type { Chase, DiceResult, InningsScore, PlayerToken, IPlayer, BoardSquare, MatchFormat, SuperOverScore, TestMatchClock } from './engine/types';
+import type { AnimatingToken as AnimatingTokenData } from './animation';
 import './App.css';
-import { boardLayout } from './boardLayout';
 import { useSettings } from './SettingsContext';
-import { playSound } from './soundManager';
+import type { AppSettings } from './SettingsContext';
+import { playSound, playEventSounds } from './soundManager';
 import { LobbyScreen } from './LobbyScreen';
+import { WaitingRoomScreen } from './WaitingRoomScreen';
 import { MultiplayerGameScreen } from './MultiplayerGameScreen';
+import { ReplayScreen } from './ReplayScreen';
+import { decideAIMove } from './aiPlayer';
+import { STANDARD_BOARD_NAME, getBoardGridStyle, getBoardSquares, loadSavedBoards } from './boards';
+import { BoardEditorScreen } from './BoardEditorScreen';
+import { MatchFormatPanel } from './MatchFormatPanel';
+import { Scorecard, WormChart } from './Scorecard';
+import { CommentaryPanel } from './CommentaryPanel';
+import { MatchExportPanel } from './MatchExportPanel';
+import { SavedGamesPanel } from './SavedGamesPanel';
+import { RulePresetsPanel } from './RulePresetsPanel';
+import { AUTOSAVE_NAME, deleteSavedGame, saveGame } from './savedGames';
+import type { SavedGame, SavedGameType } from './savedGames';
+import { getMatchStats } from './engine/stats';
+import { describeMargin, formatInnings, formatScorecard } from './engine/export';
 
 const AI_THINKING_TIME = 1000; // 1 second delay for AI moves
 
@@ -18,8 +35,8 @@ const LAND_DURATION = 300;
 const MOVE_BACK_DURATION = 100;
 
 // Type for our simple router
-type GameState = 'home' | 'settings' | 'lobby' | 'playing' | 'end';
-type GameType = 'human-vs-ai' | 'pass-and-play' | 'multiplayer';
+type GameState = 'home' | 'settings' | 'boardEditor' | 'lobby' | 'waitingRoom' | 'playing' | 'end' | 'replay';
+type GameType = SavedGameType | 'multiplayer';
 
 //================================================================================
 // MAIN APP COMPONENT (ACTS AS A ROUTER)
@@ -28,32 +45,65 @@ function App() {
   const [gameState, setGameState] = useState<GameState>('home');
   const [gameType, setGameType] = useState<GameType>('human-vs-ai');
   const [gameMode, setGameMode] = useState<GameMode>(GameMode.T20);
+  // Only used by Custom games
+  const [matchFormat, setMatchFormat] = useState<MatchFormat | undefined>(undefined);
+  const [aiDifficulty, setAIDifficulty] = useState<AIDifficulty>(AIDifficulty.Medium);
+  // The saved board offline games are played on
+  const [boardName, setBoardName] = useState(STANDARD_BOARD_NAME);
   const [gameId, setGameId] = useState(1);
   const { settings } = useSettings(); // Get settings from context
   const [passAndPlayPlayers, setPassAndPlayPlayers] = useState<PlayerColor[]>([]);
+  // A saved offline game being played on. Starting any other game clears it.
+  const [resumedGame, setResumedGame] = useState<Game | null>(null);
+  // The game that just finished. Offline and online games both end up here for the EndScreen and replays.
+  const [finishedGame, setFinishedGame] = useState<Game | null>(null);
 
-  const startSinglePlayerGame = (mode: GameMode) => {
+  const startSinglePlayerGame = (mode: GameMode, difficulty: AIDifficulty, format?: MatchFormat) => {
+    setResumedGame(null);
     setGameMode(mode);
+    setMatchFormat(format);
+    setAIDifficulty(difficulty);
     setGameType('human-vs-ai');
     setGameState('playing');
   };
 
-  const startPassAndPlayGame = (mode: GameMode, players: PlayerColor[]) => {
+  const startPassAndPlayGame = (mode: GameMode, players: PlayerColor[], format?: MatchFormat) => {
+    setResumedGame(null);
     setGameMode(mode);
+    setMatchFormat(format);
     setGameType('pass-and-play');
     setPassAndPlayPlayers(players);
     setGameState('playing');
   };
 
-  const endGame = () => { setGameState('end'); };
-  const restartGame = () => { setGameId(id => id + 1); setGameState('playing'); };
-  const goHome = () => { setGameId(id => id + 1); setGameState('home'); };
+  const endGame = (game: Game) => { setFinishedGame(game); setGameState('end'); };
+  const restartGame = () => { setResumedGame(null); setGameId(id => id + 1); setGameState('playing'); };
+  const goHome = () => { setResumedGame(null); setGameId(id => id + 1); setGameState('home'); };
   const showSettings = () => { setGameState('settings'); };
+  const showBoardEditor = () => { setGameState('boardEditor'); };
+  const showReplay = () => { setGameState('replay'); };
+  const showEndScreen = () => { setGameState('end'); };
+
+  // Picks a saved game up where it was left. Play Again then starts a fresh game of the same kind.
+  const resumeGame = (save: SavedGame, game: Game) => {
+    setResumedGame(game);
+    setGameType(save.gameType);
+    setGameMode(game.getGameMode());
+    setMatchFormat(game.getGameMode() === GameMode.Custom ? { ...game.getFormat() } : undefined);
+    setAIDifficulty(game.aiDifficulty);
+    setPassAndPlayPlayers(game.players.map(p => p.color));
+    setGameId(id => id + 1);
+    setGameState('playing');
+  };
 
   // Store the current multiplayer game ID
   const [multiplayerGameId, setMultiplayerGameId] = useState<string | null>(null);
 
   const showLobby = () => setGameState('lobby');
+  const enterWaitingRoom = (gameId: string) => {
+      setMultiplayerGameId(gameId);
+      setGameState('waitingRoom');
+  };
   const startMultiplayerGame = (gameId: string) => {
       setMultiplayerGameId(gameId);
       setGameType('multiplayer'); // Set game type for multiplayer
@@ -63,16 +113,20 @@ function App() {
   // The game instance is now part of the GameScreen
   // The single gameInstance now handles all offline modes
   const gameInstance = useMemo(() => {
+    if (resumedGame) return resumedGame;
+    const board = getBoardSquares(boardName);
     if (gameType === 'human-vs-ai') {
       const playerColors = [PlayerColor.Blue, PlayerColor.Yellow, PlayerColor.Green, PlayerColor.Purple];
-      return new Game(gameMode, playerColors, settings, PlayerColor.Blue); // Blue is human
+      const game = new Game(gameMode, playerColors, settings, PlayerColor.Blue, { board, format: matchFormat }); // Blue is human
+      game.aiDifficulty = aiDifficulty;
+      return game;
     }
     if (gameType === 'pass-and-play') {
-      // All players are human, so the last argument is undefined
-      return new Game(gameMode, passAndPlayPlayers, settings);
+      // All players are human, so there is no human player color
+      return new Game(gameMode, passAndPlayPlayers, settings, undefined, { board, format: matchFormat });
     }
     return null; // For multiplayer, the game instance is managed by MultiplayerGameScreen
-  }, [gameId, gameMode, settings, gameType, passAndPlayPlayers]);
+  }, [gameId, gameMode, matchFormat, settings, gameType, passAndPlayPlayers, aiDifficulty, boardName, resumedGame]);
 
   return (
     <div className="app-container">
@@ -81,25 +135,34 @@ function App() {
         <HomeScreen
           onStartSinglePlayer={startSinglePlayerGame}
           onStartPassAndPlay={startPassAndPlayGame}
+          onResumeGame={resumeGame}
           onShowSettings={showSettings}
+          onShowBoardEditor={showBoardEditor}
           onShowLobby={showLobby}
+          boardName={boardName}
+          onSelectBoard={setBoardName}
         />
       )}
-      {gameState === 'lobby' && <LobbyScreen onGameStart={startMultiplayerGame} />}
+      {gameState === 'lobby' && <LobbyScreen onEnterWaitingRoom={enterWaitingRoom} onGameStart={startMultiplayerGame} />}
+      {gameState === 'waitingRoom' && multiplayerGameId && (
+        <WaitingRoomScreen gameId={multiplayerGameId} onGameStart={startMultiplayerGame} onLeave={showLobby} />
+      )}
       {gameState === 'settings' && <SettingsScreen onGoHome={goHome} />}
+      {gameState === 'boardEditor' && <BoardEditorScreen onGoHome={goHome} />}
       {gameState === 'playing' && (
         gameType === 'multiplayer' && multiplayerGameId ? (
           <MultiplayerGameScreen gameId={multiplayerGameId} onGameEnd={endGame} />
         ) : gameInstance ? (
-          <GameScreen key={gameId} gameInstance={gameInstance} onGameEnd={endGame} />
+          <GameScreen key={gameId} gameInstance={gameInstance} gameType={gameType as SavedGameType} onGameEnd={endGame} />
         ) : (
           <div>Error: Game not initialized.</div>
         )
       )}
-      {/* For EndScreen, we need to handle getting the instance from multiplayer too */}
-      {/* This is a simplification for now. */}
-      {gameState === 'end' && gameInstance && (
-        <EndScreen gameInstance={gameInstance} onRestart={restartGame} onGoHome={goHome} />
+      {gameState === 'end' && finishedGame && (
+        <EndScreen gameInstance={finishedGame} onRestart={restartGame} onGoHome={goHome} onShowReplay={showReplay} />
+      )}
+      {gameState === 'replay' && finishedGame && (
+        <ReplayScreen gameInstance={finishedGame} onBack={showEndScreen} />
       )}
     </div>
   );
@@ -111,16 +174,27 @@ function App() {
 const HomeScreen = ({
   onStartSinglePlayer,
   onStartPassAndPlay,
+  onResumeGame,
   onShowSettings,
+  onShowBoardEditor,
   onShowLobby,
+  boardName,
+  onSelectBoard,
 }: {
-  onStartSinglePlayer: (mode: GameMode) => void;
-  onStartPassAndPlay: (mode: GameMode, players: PlayerColor[]) => void;
+  onStartSinglePlayer: (mode: GameMode, difficulty: AIDifficulty, format?: MatchFormat) => void;
+  onStartPassAndPlay: (mode: GameMode, players: PlayerColor[], format?: MatchFormat) => void;
+  onResumeGame: (save: SavedGame, game: Game) => void;
   onShowSettings: () => void;
+  onShowBoardEditor: () => void;
   onShowLobby: () => void;
+  boardName: string;
+  onSelectBoard: (name: string) => void;
 }) => {
   const [selectedPlayerCount, setSelectedPlayerCount] = useState<number | null>(null);
   const [selectedGameType, setSelectedGameType] = useState<'single' | 'pass-n-play' | null>(null);
+  const [selectedDifficulty, setSelectedDifficulty] = useState<AIDifficulty>(AIDifficulty.Medium);
+  const [isBuildingFormat, setIsBuildingFormat] = useState(false);
+  const [boardNames] = useState(() => [STANDARD_BOARD_NAME, ...loadSavedBoards().map(b => b.name)]);
 
   const handleTypeSelect = (type: 'single' | 'pass-n-play', playerCount?: number) => {
       playSound('click');
@@ -136,16 +210,12 @@ const HomeScreen = ({
       }
   };
 
-  const handleModeSelect = (mode: GameMode) => {
+  const handleModeSelect = (mode: GameMode, format?: MatchFormat) => {
       playSound('click');
       if (selectedGameType === 'single') {
-          onStartSinglePlayer(mode);
+          onStartSinglePlayer(mode, selectedDifficulty, format);
       } else if (selectedGameType === 'pass-n-play' && selectedPlayerCount) {
-          let players: PlayerColor[] = [];
-          if (selectedPlayerCount === 2) players = [PlayerColor.Blue, PlayerColor.Green];
-          else if (selectedPlayerCount === 3) players = [PlayerColor.Blue, PlayerColor.Yellow, PlayerColor.Green];
-          else if (selectedPlayerCount === 4) players = [PlayerColor.Blue, PlayerColor.Yellow, PlayerColor.Green, PlayerColor.Purple];
-          onStartPassAndPlay(mode, players);
+          onStartPassAndPlay(mode, getSeatColors(selectedPlayerCount), format);
       }
   };
   
@@ -155,33 +225,64 @@ const HomeScreen = ({
         <button onClick={() => handleModeSelect(GameMode.T20)}>T20</button>
         <button onClick={() => handleModeSelect(GameMode.FiftyFifty)}>50-50</button>
         <button onClick={() => handleModeSelect(GameMode.Test)}>Test Match</button>
+        <button className={isBuildingFormat ? 'active' : ''} onClick={() => { playSound('click'); setIsBuildingFormat(b => !b); }}>Custom</button>
     </div>
   );
 
+  const formatPanel = isBuildingFormat && <MatchFormatPanel onStart={(format) => handleModeSelect(GameMode.Custom, format)} />;
+
   return (
     <div className="screen home-screen">
+      <SavedGamesPanel onResume={onResumeGame} />
+
       <h2>Pass and Play (Local)</h2>
       <div className="mode-selection">
         <button className={selectedPlayerCount === 2 ? 'active' : ''} onClick={() => handleTypeSelect('pass-n-play', 2)}>2 Players</button>
         <button className={selectedPlayerCount === 3 ? 'active' : ''} onClick={() => handleTypeSelect('pass-n-play', 3)}>3 Players</button>
         <button className={selectedPlayerCount === 4 ? 'active' : ''} onClick={() => handleTypeSelect('pass-n-play', 4)}>4 Players</button>
       </div>
-      {selectedGameType === 'pass-n-play' && <ModeButtons />}
+      {selectedGameType === 'pass-n-play' && <><ModeButtons />{formatPanel}</>}
 
       <h2>Single Player (vs AI)</h2>
       <div className="mode-selection">
           {/* We'll make this a toggle button as well for consistency */}
           <button className={selectedGameType === 'single' ? 'active' : ''} onClick={() => handleTypeSelect('single')}>Start Game</button>
       </div>
-      {selectedGameType === 'single' && <ModeButtons />}
+      {selectedGameType === 'single' && (
+        <>
+          <div className="toggle-switch difficulty-selection">
+            {[AIDifficulty.Easy, AIDifficulty.Medium, AIDifficulty.Hard, AIDifficulty.Expert].map(difficulty => (
+              <button
+                key={difficulty}
+                className={selectedDifficulty === difficulty ? 'active' : ''}
+                onClick={() => { playSound('click'); setSelectedDifficulty(difficulty); }}
+              >
+                {difficulty}
+              </button>
+            ))}
+          </div>
+          <ModeButtons />
+          {formatPanel}
+        </>
+      )}
       
       <h2>Multiplayer (Online)</h2>
       <div className="mode-selection">
           <button onClick={() => { playSound('click'); onShowLobby(); }}>Lobby</button>
       </div>
       
+      {boardNames.length > 1 && (
+        <div className="board-picker">
+          <label htmlFor="board-picker">Offline board</label>
+          <select id="board-picker" value={boardNames.includes(boardName) ? boardName : STANDARD_BOARD_NAME} onChange={(e) => onSelectBoard(e.target.value)}>
+            {boardNames.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </div>
+      )}
+
       <div className="home-buttons">
           <button className="secondary" onClick={() => { playSound('click'); onShowSettings(); }}>Settings</button>
+          <button className="secondary" onClick={() => { playSound('click'); onShowBoardEditor(); }}>Board Editor</button>
       </div>
     </div>
   );
@@ -193,13 +294,14 @@ const HomeScreen = ({
 const SettingsScreen = ({ onGoHome }: { onGoHome: () => void }) => {
     const { settings, setSettings } = useSettings();
 
-    const handleSettingChange = (setting: keyof GameSettings, value: any) => {
+    const handleSettingChange = (setting: keyof AppSettings, value: any) => {
         setSettings(prev => ({ ...prev, [setting]: value }));
     };
 
     return (
         <div className="screen settings-screen">
             <h2>Game Rules</h2>
+            <RulePresetsPanel />
             <div className="settings-list">
                 <div className="setting-row">
                     <label>Movement Direction</label>
@@ -215,11 +317,63 @@ const SettingsScreen = ({ onGoHome }: { onGoHome: () => void }) => {
                         <button className={settings.killRule === 'fortress' ? 'active' : ''} onClick={() => handleSettingChange('killRule', 'fortress')}>Fortress</button>
                     </div>
                 </div>
+                {/* The Steal Level kill bonus already hands over the victim's level. */}
+                {settings.killBonus !== 'stealLevel' && (
+                    <div className="setting-row">
+                        <label>Steal Level on Kill</label>
+                         <div className="toggle-switch">
+                            <button className={settings.stealLevelOnKill ? 'active' : ''} onClick={() => handleSettingChange('stealLevelOnKill', true)}>Enabled</button>
+                            <button className={!settings.stealLevelOnKill ? 'active' : ''} onClick={() => handleSettingChange('stealLevelOnKill', false)}>Disabled</button>
+                        </div>
+                    </div>
+                )}
+                <div className="setting-row">
+                    <label>Batters per Side</label>
+                     <div className="toggle-switch">
+                        {Array.from({ length: MAX_TOKENS_PER_PLAYER }, (_, i) => i + 1).map(count => (
+                            <button key={count} className={settings.tokensPerPlayer === count ? 'active' : ''} onClick={() => handleSettingChange('tokensPerPlayer', count)}>{count}</button>
+                        ))}
+                    </div>
+                </div>
                 <div className="setting-row">
-                    <label>Steal Level on Kill</label>
+                    <label>Kill Bonus</label>
                      <div className="toggle-switch">
-                        <button className={settings.stealLevelOnKill ? 'active' : ''} onClick={() => handleSettingChange('stealLevelOnKill', true)}>Enabled</button>
-                        <button className={!settings.stealLevelOnKill ? 'active' : ''} onClick={() => handleSettingChange('stealLevelOnKill', false)}>Disabled</button>
+                        <button className={settings.killBonus === 'none' ? 'active' : ''} onClick={() => handleSettingChange('killBonus', 'none')}>None</button>
+                        <button className={settings.killBonus === 'squareValue' ? 'active' : ''} onClick={() => handleSettingChange('killBonus', 'squareValue')}>Square Value</button>
+                        <button className={settings.killBonus === 'doubleSquareValue' ? 'active' : ''} onClick={() => handleSettingChange('killBonus', 'doubleSquareValue')}>Double</button>
+                        <button className={settings.killBonus === 'doublePlusLevel' ? 'active' : ''} onClick={() => handleSettingChange('killBonus', 'doublePlusLevel')}>Double + Level</button>
+                        <button className={settings.killBonus === 'stealLevel' ? 'active' : ''} onClick={() => handleSettingChange('killBonus', 'stealLevel')}>Steal Level</button>
+                    </div>
+                </div>
+                <div className="setting-row">
+                    <label>Tied Super Over</label>
+                     <div className="toggle-switch">
+                        <button className={settings.superOverTieRule === 'repeat' ? 'active' : ''} onClick={() => handleSettingChange('superOverTieRule', 'repeat')}>Play Another</button>
+                        <button className={settings.superOverTieRule === 'shared' ? 'active' : ''} onClick={() => handleSettingChange('superOverTieRule', 'shared')}>Share the Win</button>
+                    </div>
+                </div>
+                <div className="setting-row">
+                    <label>Innings</label>
+                     <div className="toggle-switch">
+                        <button className={settings.inningsMode === 'roundRobin' ? 'active' : ''} onClick={() => handleSettingChange('inningsMode', 'roundRobin')}>All Bat Together</button>
+                        <button className={settings.inningsMode === 'sequential' ? 'active' : ''} onClick={() => handleSettingChange('inningsMode', 'sequential')}>One After Another</button>
+                    </div>
+                </div>
+                {settings.inningsMode === 'sequential' && (
+                    <div className="setting-row">
+                        <label>Fielders Can Kill</label>
+                         <div className="toggle-switch">
+                            <button className={settings.fieldersCanKill ? 'active' : ''} onClick={() => handleSettingChange('fieldersCanKill', true)}>Enabled</button>
+                            <button className={!settings.fieldersCanKill ? 'active' : ''} onClick={() => handleSettingChange('fieldersCanKill', false)}>Disabled</button>
+                        </div>
+                    </div>
+                )}
+                <div className="setting-row">
+                    <label>Takebacks (Offline)</label>
+                     <div className="toggle-switch">
+                        <button className={settings.takebackPolicy === 'off' ? 'active' : ''} onClick={() => handleSettingChange('takebackPolicy', 'off')}>Off</button>
+                        <button className={settings.takebackPolicy === 'lastMove' ? 'active' : ''} onClick={() => handleSettingChange('takebackPolicy', 'lastMove')}>Last Move</button>
+                        <button className={settings.takebackPolicy === 'unlimited' ? 'active' : ''} onClick={() => handleSettingChange('takebackPolicy', 'unlimited')}>Unlimited (Casual)</button>
                     </div>
                 </div>
             </div>
@@ -233,25 +387,37 @@ const SettingsScreen = ({ onGoHome }: { onGoHome: () => void }) => {
 //================================================================================
 // GAME SCREEN COMPONENT (Our previous App logic is now here)
 //================================================================================
-const GameScreen = ({ gameInstance, onGameEnd }: { gameInstance: Game; onGameEnd: () => void }) => {
+const GameScreen = ({ gameInstance, gameType, onGameEnd }: { gameInstance: Game; gameType: SavedGameType; onGameEnd: (game: Game) => void }) => {
+  const { settings } = useSettings();
   const [gameVersion, setGameVersion] = useState(0);
   const [diceResult, setDiceResult] = useState<DiceResult | null>(null);
   const [waitingForTokenChoice, setWaitingForTokenChoice] = useState(false);
   const [animatingToken, setAnimatingToken] = useState<AnimatingTokenData | null>(null);
   const [isDiceRolling, setIsDiceRolling] = useState(false);
   const [returningTokens, setReturningTokens] = useState<AnimatingTokenData[]>([]);
+  // Copies of the game taken just before a human rolled, so the move can be taken back.
+  const [takebacks, setTakebacks] = useState<GameSnapshot[]>([]);
+  const [saveName, setSaveName] = useState('');
+  const [saveStatus, setSaveStatus] = useState('');
 
   const currentPlayer = gameInstance.getCurrentPlayer();
   const isAnimating = !!animatingToken || returningTokens.length > 0;
-
-  // We filter out players who are all out before creating the list of tokens to render.
+  const canUndo = settings.takebackPolicy !== 'off' && takebacks.length > 0
+    && !currentPlayer.isAI && !isAnimating && !isDiceRolling && !gameInstance.isGameOver;
+  // Games are only saved between turns, never with a roll waiting to be played.
+  const isBetweenTurns = !isAnimating && !isDiceRolling && !diceResult && !waitingForTokenChoice && !gameInstance.isGameOver;
+  const trimmedSaveName = saveName.trim();
+  const canSave = isBetweenTurns && trimmedSaveName !== '' && trimmedSaveName !== AUTOSAVE_NAME;
+
+  // We filter out players who are all out (or sitting out a Super Over) before creating the list of tokens to render.
   const allTokens = gameInstance.players
-    .filter(p => !p.isAllOut)
+    .filter(p => gameInstance.isInPlay(p))
     .flatMap(p => p.tokens.map(t => ({ ...t, color: p.color })));
+  const isCurrentInPlay = gameInstance.isInPlay(currentPlayer);
 
   // This runs whenever the player changes and handles skipping their turn if they are all out.
   useEffect(() => {
-    if (currentPlayer.isAllOut && !isAnimating && !gameInstance.isGameOver) {
+    if (!isCurrentInPlay && !isAnimating && !gameInstance.isGameOver) {
       console.log(`--- Turn Skipped (All Out): ${currentPlayer.name} ---`);
       const skipDelay = currentPlayer.isAI ? 100 : 100;
 
@@ -262,67 +428,91 @@ const GameScreen = ({ gameInstance, onGameEnd }: { gameInstance: Game; onGameEnd
 
       return () => clearTimeout(timeoutId);
     }
-  }, [gameVersion, currentPlayer.id, currentPlayer.isAllOut]);
+  }, [gameVersion, currentPlayer.id, isCurrentInPlay]);
 
   // --- AI TURN AUTOMATION ---
   useEffect(() => {
-    if (currentPlayer.isAI && !isAnimating && !isDiceRolling && !gameInstance.isGameOver && !currentPlayer.isAllOut) {
+    if (currentPlayer.isAI && !isAnimating && !isDiceRolling && !gameInstance.isGameOver && isCurrentInPlay) {
       console.log(`--- AI Turn Start: ${currentPlayer.name} ---`);
+      // Cleared when the effect is torn down (a second run in StrictMode, leaving the game),
+      // so one AI turn never gets played twice.
+      let cancelled = false;
       
-      setTimeout(() => {
+      const timeoutId = setTimeout(() => {
+        if (cancelled) return;
+        if (gameInstance.shouldAIDeclare()) {
+          gameInstance.declareInnings();
+          setGameVersion(v => v + 1);
+          return;
+        }
         setIsDiceRolling(true);
         playSound('dice');
         const aiDiceResult = gameInstance.rollDice();
         
         setTimeout(() => {
+          if (cancelled) return;
           setIsDiceRolling(false);
           setDiceResult(aiDiceResult);
-          const chosenTokenId = gameInstance.makeAIDecision(currentPlayer);
-          
-          setTimeout(() => {
-            handleTokenMove(chosenTokenId, aiDiceResult);
-          }, 1000);
+          const thinkingStartedAt = Date.now();
+
+          decideAIMove(gameInstance, currentPlayer, aiDiceResult).then(chosenTokenId => {
+            // Keep the usual pause before moving, however long the AI took to decide.
+            const remainingPause = Math.max(0, 1000 - (Date.now() - thinkingStartedAt));
+            setTimeout(() => {
+              if (cancelled) return;
+              handleTokenMove(chosenTokenId, aiDiceResult);
+            }, remainingPause);
+          });
 
         }, 500);
 
       }, AI_THINKING_TIME);
+
+      return () => {
+        cancelled = true;
+        clearTimeout(timeoutId);
+      };
     }
   }, [gameVersion, currentPlayer.id]);
 
+  // --- AUTOSAVE ---
+  // Saved after every turn so a refresh can carry on from the home screen. A finished game has nothing to carry on.
+  useEffect(() => {
+    if (gameInstance.isGameOver) {
+      deleteSavedGame(AUTOSAVE_NAME);
+      return;
+    }
+    if (!isBetweenTurns) return;
+    try {
+      saveGame(AUTOSAVE_NAME, gameType, gameInstance);
+    } catch (err) {
+      console.warn('Could not autosave the game:', err);
+    }
+  }, [gameVersion, isBetweenTurns, gameInstance, gameType]);
+
   // --- PRIMARY MOVE FINALIZATION ---
   useEffect(() => {
     if (animatingToken?.phase === 'landing') {
       const { tokenId } = animatingToken;
       const finalDiceResult = diceResult!;
       const landingPosition = animatingToken.path[animatingToken.path.length - 1];
-      const landingSquare = boardLayout[landingPosition];
-      const movingPlayer = gameInstance.getCurrentPlayer();
 
       setTimeout(() => {
-        const potentialVictims = gameInstance.players
-          .flatMap(p => p.tokens.map(t => ({ ...t, player: p })))
-          .filter(t => t.positionIndex === landingPosition && t.player.color !== movingPlayer.color);
-
         // Run the turn logic, which updates all game state (scores, wickets, positions, isAllOut status)
-        gameInstance.playTurn(tokenId, finalDiceResult);
+        const events = gameInstance.playTurn(tokenId, finalDiceResult);
+        playEventSounds(events, gameInstance.board);
 
+        // Every wicket sends a token back home: kills send the victim, Wicket squares send the mover.
         const returnAnims: AnimatingTokenData[] = [];
-        const actualVictims = potentialVictims.filter(victim => {
-          const tokenAfterTurn = victim.player.tokens.find(t => t.id === victim.id)!;
-          return tokenAfterTurn.positionIndex === victim.player.homeBaseIndex;
+        events.forEach(event => {
+          if (event.type !== 'wicket') return;
+          const player = gameInstance.players.find(p => p.id === event.playerId)!;
+          const kill = events.find(e => e.type === 'kill' && e.victimId === event.playerId && e.victimTokenId === event.tokenId);
+          const level = kill?.type === 'kill' ? kill.victimLevel : animatingToken.level;
+          const returnPath = gameInstance.getReturnPath(landingPosition, player.homeBaseIndex);
+          returnAnims.push({ playerColor: player.color, tokenId: event.tokenId, path: returnPath, currentStep: 0, phase: 'lifting', startPosition: landingPosition, level });
         });
 
-        actualVictims.forEach(victim => {
-          const returnPath = gameInstance.getReturnPath(landingPosition, victim.player.homeBaseIndex);
-          returnAnims.push({ playerColor: victim.player.color, tokenId: victim.id as 1 | 2, path: returnPath, currentStep: 0, phase: 'lifting', startPosition: landingPosition, level: victim.level });
-        });
-
-        const movedTokenAfterTurn = movingPlayer.tokens.find(t => t.id === tokenId)!;
-        if (landingSquare.type === SquareType.Wicket && movedTokenAfterTurn.positionIndex === movingPlayer.homeBaseIndex) {
-          const returnPath = gameInstance.getReturnPath(landingPosition, movingPlayer.homeBaseIndex);
-          returnAnims.push({ playerColor: movingPlayer.color, tokenId: tokenId as 1 | 2, path: returnPath, currentStep: 0, phase: 'lifting', startPosition: landingPosition, level: animatingToken.level });
-        }
-
         setAnimatingToken(null);
         setDiceResult(null);
 
@@ -350,10 +540,27 @@ const GameScreen = ({ gameInstance, onGameEnd }: { gameInstance: Game; onGameEnd
   }, [returningTokens]);
 
 
-  if (gameInstance.isGameOver) { onGameEnd(); }
+  if (gameInstance.isGameOver) { onGameEnd(gameInstance); }
   
+  const handleSaveGame = () => {
+    if (!canSave) return;
+    playSound('click');
+    try {
+      saveGame(trimmedSaveName, gameType, gameInstance);
+      setSaveStatus(`Saved as "${trimmedSaveName}".`);
+      setSaveName('');
+    } catch {
+      setSaveStatus('Could not save: storage is full. Delete an old save first.');
+    }
+  };
+
   const handleRollDice = () => {
-    if (isDiceRolling || isAnimating || waitingForTokenChoice || currentPlayer.isAI || currentPlayer.isAllOut) return;
+    if (isDiceRolling || isAnimating || waitingForTokenChoice || currentPlayer.isAI || !isCurrentInPlay) return;
+    // Snapshot before rolling, so a takeback also returns the dice to this exact roll.
+    if (settings.takebackPolicy !== 'off') {
+      const snapshot = gameInstance.toJSON();
+      setTakebacks(prev => settings.takebackPolicy === 'lastMove' ? [snapshot] : [...prev, snapshot]);
+    }
     setIsDiceRolling(true);
     playSound('dice');
     const result = gameInstance.rollDice();
@@ -373,7 +580,7 @@ const GameScreen = ({ gameInstance, onGameEnd }: { gameInstance: Game; onGameEnd
     
     setWaitingForTokenChoice(false);
     
-    setAnimatingToken({ playerColor: player.color, tokenId: tokenId as 1 | 2, path, currentStep: 0, phase: 'lifting', startPosition: token.positionIndex, level: token.level });
+    setAnimatingToken({ playerColor: player.color, tokenId, path, currentStep: 0, phase: 'lifting', startPosition: token.positionIndex, level: token.level });
     
     setTimeout(() => {
       path.forEach((_, index) => {
@@ -392,6 +599,29 @@ const GameScreen = ({ gameInstance, onGameEnd }: { gameInstance: Game; onGameEnd
     }, LIFT_DURATION);
   };
   
+  const canDeclare = !currentPlayer.isAI && !isAnimating && !isDiceRolling && !diceResult && gameInstance.canDeclare();
+
+  const handleDeclare = () => {
+    if (!canDeclare) return;
+    playSound('click');
+    if (settings.takebackPolicy !== 'off') {
+      const snapshot = gameInstance.toJSON();
+      setTakebacks(prev => settings.takebackPolicy === 'lastMove' ? [snapshot] : [...prev, snapshot]);
+    }
+    gameInstance.declareInnings();
+    setGameVersion(v => v + 1);
+  };
+
+  const handleUndo = () => {
+    if (!canUndo) return;
+    playSound('click');
+    gameInstance.restoreState(takebacks[takebacks.length - 1]);
+    setTakebacks(prev => prev.slice(0, -1));
+    setDiceResult(null);
+    setWaitingForTokenChoice(false);
+    setGameVersion(v => v + 1);
+  };
+
   const handleReturnAnimations = (returnAnims: AnimatingTokenData[]) => {
     setReturningTokens(prev => [...prev, ...returnAnims]);
 
@@ -417,44 +647,103 @@ const GameScreen = ({ gameInstance, onGameEnd }: { gameInstance: Game; onGameEnd
   };
 
   return (
-    <Board
-      tokens={allTokens}
-      players={gameInstance.players}
-      currentPlayer={currentPlayer}
-      animatingToken={animatingToken}
-      returningTokens={returningTokens}
-      onRollDice={handleRollDice}
-      onTokenMove={handleTokenMove}
-      waitingForTokenChoice={waitingForTokenChoice}
-      isGameOver={gameInstance.isGameOver}
-      diceResult={diceResult}
-      isDiceRolling={isDiceRolling}
-    />
+    <div className="game-screen">
+      <div className="board-with-commentary">
+        <Board
+          board={gameInstance.board}
+          tokens={allTokens}
+          players={gameInstance.players}
+          currentPlayer={currentPlayer}
+          animatingToken={animatingToken}
+          returningTokens={returningTokens}
+          onRollDice={handleRollDice}
+          onTokenMove={handleTokenMove}
+          waitingForTokenChoice={waitingForTokenChoice}
+          isGameOver={gameInstance.isGameOver}
+          diceResult={diceResult}
+          isDiceRolling={isDiceRolling}
+          superOver={gameInstance.getCurrentSuperOver()}
+          chase={gameInstance.getChase()}
+          isFielding={gameInstance.isFielding(currentPlayer)}
+          innings={gameInstance.innings}
+          testMatchClock={gameInstance.getTestMatchClock()}
+          onDeclare={canDeclare ? handleDeclare : undefined}
+        />
+        <CommentaryPanel
+          gameInstance={gameInstance}
+          moveCount={animatingToken ? gameInstance.history.length - 1 : gameInstance.history.length}
+        />
+      </div>
+      <div className="game-actions">
+        {settings.takebackPolicy !== 'off' && (
+          <button onClick={handleUndo} disabled={!canUndo}>
+            ↶ Undo{settings.takebackPolicy === 'unlimited' && takebacks.length > 0 ? ` (${takebacks.length})` : ''}
+          </button>
+        )}
+        <input
+          type="text"
+          placeholder="Save name"
+          value={saveName}
+          maxLength={30}
+          onChange={(e) => { setSaveName(e.target.value); setSaveStatus(''); }}
+        />
+        <button onClick={handleSaveGame} disabled={!canSave}>💾 Save</button>
+      </div>
+      {saveStatus && <p className="save-status" role="status">{saveStatus}</p>}
+    </div>
   );
 };
 
 //================================================================================
 // END SCREEN COMPONENT
 //================================================================================
-const EndScreen = ({ gameInstance, onRestart, onGoHome }: { gameInstance: Game; onRestart: () => void; onGoHome: () => void; }) => {
+const EndScreen = ({ gameInstance, onRestart, onGoHome, onShowReplay }: { gameInstance: Game; onRestart: () => void; onGoHome: () => void; onShowReplay: () => void; }) => {
     const sortedPlayers = [...gameInstance.players].sort((a, b) => b.score - a.score);
-    const winner = sortedPlayers[0];
+    const result = gameInstance.getResult();
+    const getPlayer = (id: number) => gameInstance.players.find(p => p.id === id)!;
+    const winners = result.winnerIds.map(getPlayer);
+    const stats = useMemo(() => getMatchStats(gameInstance), [gameInstance]);
+
+    let headline = `🎉 ${winners[0]?.name} ${describeMargin(result.margin)}! 🎉`;
+    if (result.decidedBy === 'superOver') headline = `🎉 ${winners[0].name} wins the Super Over! 🎉`;
+    if (result.decidedBy === 'tie') headline = `🤝 It's a tie! ${winners.map(p => p.name).join(' and ')} share the win.`;
+    if (result.decidedBy === 'draw') headline = `🤝 The match is drawn.`;
 
     return (
         <div className="screen end-screen">
             <h2>Game Over!</h2>
-            <h3>🎉 {winner.name} wins the game! 🎉</h3>
+            <h3>{headline}</h3>
             <div className="scoreboard">
                 {sortedPlayers.map((player, index) => (
                     <div key={player.id} className="score-row">
                         <span className="rank">{index + 1}.</span>
                         <span className="name" style={{ color: `var(--${player.color.toLowerCase()})`}}>{player.name}</span>
-                        <span className="score">{player.score} - {player.wickets}</span>
+                        <span className="score">{formatScorecard(player, gameInstance.innings.filter(i => i.playerId === player.id))}</span>
                     </div>
                 ))}
             </div>
+            {gameInstance.superOvers.map((superOver, index) => (
+                <div key={index} className="scoreboard super-over">
+                    <h4>Super Over{gameInstance.superOvers.length > 1 ? ` ${index + 1}` : ''}</h4>
+                    {superOver.map(score => {
+                        const player = getPlayer(score.playerId);
+                        return (
+                            <div key={score.playerId} className="score-row">
+                                <span className="rank" />
+                                <span className="name" style={{ color: `var(--${player.color.toLowerCase()})`}}>{player.name}</span>
+                                <span className="score">{score.runs} - {score.wickets}</span>
+                            </div>
+                        );
+                    })}
+                </div>
+            ))}
+            <Scorecard gameInstance={gameInstance} stats={stats} />
+            <WormChart gameInstance={gameInstance} stats={stats} />
+            <MatchExportPanel gameInstance={gameInstance} />
+            {gameInstance.seed !== null && <p className="game-seed">Game seed: {gameInstance.seed}</p>}
             <div className="end-buttons">
                 <button onClick={onRestart}>Play Again</button>
+                {gameInstance.history.length > 0 && <button onClick={onShowReplay}>Watch Replay</button>}
                 <button onClick={onGoHome}>Go to Home</button>
             </div>
         </div>
@@ -480,6 +769,7 @@ export const Dice = ({ number, color, isRolling, isIdle }: { number: number; col
 
 // --- Board and UI Components ---
 type BoardProps = {
+  board: Readonly<BoardSquare[]>;
   tokens: (PlayerToken & { color: PlayerColor })[];
   players: IPlayer[];
   currentPlayer: IPlayer;
@@ -491,9 +781,15 @@ type BoardProps = {
   onRollDice: () => void;
   isDiceRolling: boolean;
   diceResult: DiceResult | null;
+  superOver?: SuperOverScore[] | null; // The Super Over being played, if any
+  chase?: Chase | null; // The run chase in a sequential innings, if one is on
+  isFielding?: boolean; // The current player is fielding in a sequential innings
+  innings?: InningsScore[]; // The finished innings of a Test match
+  testMatchClock?: TestMatchClock | null;
+  onDeclare?: () => void; // Set when the current player may declare their innings closed
 };
 
-export const Board = ({ tokens, players, currentPlayer, animatingToken, returningTokens, onRollDice, onTokenMove, waitingForTokenChoice, isGameOver, isDiceRolling, diceResult }: BoardProps) => {
+export const Board = ({ board, tokens, players, currentPlayer, animatingToken, returningTokens, onRollDice, onTokenMove, waitingForTokenChoice, isGameOver, isDiceRolling, diceResult, superOver = null, chase = null, isFielding = false, innings = [], testMatchClock = null, onDeclare }: BoardProps) => {
   // Filter out the primary moving token
   let staticTokens = animatingToken 
     ? tokens.filter(t => !(t.color === animatingToken.playerColor && t.id === animatingToken.tokenId))
@@ -505,8 +801,8 @@ export const Board = ({ tokens, players, currentPlayer, animatingToken, returnin
   );
 
   return (
-    <div className="board">
-      {boardLayout.map(squareInfo => (
+    <div className="board" style={getBoardGridStyle(board)}>
+      {board.map(squareInfo => (
         <Square
           key={squareInfo.index}
           squareInfo={squareInfo}
@@ -518,10 +814,10 @@ export const Board = ({ tokens, players, currentPlayer, animatingToken, returnin
         />
       ))}
 
-      {animatingToken && <AnimatingToken token={animatingToken} />}
+      {animatingToken && <AnimatingToken board={board} token={animatingToken} />}
       {returningTokens.map(token => {
         const key = `${token.playerColor}-${token.tokenId}`;
-        return <AnimatingToken key={key} token={token} isReturning={true} />
+        return <AnimatingToken key={key} board={board} token={token} isReturning={true} />
       })}
       
       <ControlHub 
@@ -531,6 +827,9 @@ export const Board = ({ tokens, players, currentPlayer, animatingToken, returnin
         onRollDice={onRollDice} 
         isDiceRolling={isDiceRolling}
         currentPlayer={currentPlayer}
+        isFielding={isFielding}
+        testMatchClock={testMatchClock}
+        onDeclare={onDeclare}
       />
 
        {players.map((p: IPlayer) => {
@@ -540,14 +839,14 @@ export const Board = ({ tokens, players, currentPlayer, animatingToken, returnin
         else if (p.color === PlayerColor.Yellow) position = 'bl';
         else if (p.color === PlayerColor.Green) position = 'br';
         if (!position) return null;
-        return <QuadrantScore key={p.id} player={p} isCurrent={currentPlayer.id === p.id} position={position} />
+        return <QuadrantScore key={p.id} player={p} isCurrent={currentPlayer.id === p.id} position={position} superOverScore={superOver?.find(s => s.playerId === p.id)} chase={chase?.batterId === p.id ? chase : undefined} innings={innings.filter(i => i.playerId === p.id)} />
       })}
     </div>
   );
 };
 
 // This component renders the moving token
-export const AnimatingToken = ({ token, isReturning = false }: { token: AnimatingTokenData; isReturning?: boolean }) => {
+export const AnimatingToken = ({ board, token, isReturning = false }: { board: Readonly<BoardSquare[]>; token: AnimatingTokenData; isReturning?: boolean }) => {
   let posIndex;
   
   if (token.phase === 'lifting') {
@@ -557,7 +856,7 @@ export const AnimatingToken = ({ token, isReturning = false }: { token: Animatin
     posIndex = token.path[Math.max(0, token.currentStep - 1)];
   }
                                                                             
-  const coords = boardLayout[posIndex]?.coords;
+  const coords = board[posIndex]?.coords;
   
   // Prevent crash if coords are not found
   if (!coords) {
@@ -584,9 +883,12 @@ type SquareProps = {
   currentPlayerColor: PlayerColor;
   onTokenMove: (tokenId: number) => void;
   isAnimating: boolean;
+  // Used by the board editor to pick squares
+  onClick?: () => void;
+  isSelected?: boolean;
 };
 
-export const Square = ({ squareInfo, tokens, isWaitingForChoice, currentPlayerColor, onTokenMove, isAnimating }: SquareProps) => {
+export const Square = ({ squareInfo, tokens, isWaitingForChoice, currentPlayerColor, onTokenMove, isAnimating, onClick, isSelected = false }: SquareProps) => {
   const tokensOnSquare = tokens.filter(t => t.positionIndex === squareInfo.index);
   const hasTokens = tokensOnSquare.length > 0;
   const gridStyle = { gridColumn: squareInfo.coords.col + 1, gridRow: squareInfo.coords.row + 1 };
@@ -598,7 +900,7 @@ export const Square = ({ squareInfo, tokens, isWaitingForChoice, currentPlayerCo
   }
 
   return (
-    <div style={gridStyle} className={`square playable ${typeClassName} ${hasTokens ? 'occupied' : ''}`}>
+    <div style={gridStyle} className={`square playable ${typeClassName} ${hasTokens ? 'occupied' : ''} ${tokensOnSquare.length > 4 ? 'crowded' : ''} ${isSelected ? 'selected' : ''}`} onClick={onClick}>
       <SquareContent type={squareInfo.type} value={squareInfo.value} ownerColor={squareInfo.ownerColor} />
       <div className="token-container" style={{ pointerEvents: isAnimating ? 'none' : 'auto' }}>
         {tokensOnSquare.map(token => {
@@ -619,7 +921,7 @@ export const Square = ({ squareInfo, tokens, isWaitingForChoice, currentPlayerCo
   );
 };
 
-export const ControlHub = ({ isGameOver, waitingForTokenChoice, diceResult, onRollDice, currentPlayer, isDiceRolling }: any) => {
+export const ControlHub = ({ isGameOver, waitingForTokenChoice, diceResult, onRollDice, currentPlayer, isDiceRolling, isFielding, testMatchClock, onDeclare }: any) => {
     const diceColorVar = diceResult?.direction === Direction.Clockwise ? 'var(--action-green)' : `var(--red)`;
     
     // Show a randomly cycling die face during the rolling animation
@@ -633,7 +935,7 @@ export const ControlHub = ({ isGameOver, waitingForTokenChoice, diceResult, onRo
         }
     }, [isDiceRolling]);
 
-    if (currentPlayer.isAllOut) {
+    if (currentPlayer.isAllOut && !isFielding) {
         return <div className="control-hub"><div className="ai-thinking">ALL OUT</div></div>;
     }
 
@@ -662,15 +964,37 @@ export const ControlHub = ({ isGameOver, waitingForTokenChoice, diceResult, onRo
             {diceResult && !isDiceRolling && (
                 <Dice number={diceResult.movement} color={diceColorVar} />
             )}
+
+            {isFielding && <div className="fielding-label">Fielding</div>}
+
+            {onDeclare && <button className="declare-button" onClick={onDeclare}>Declare</button>}
+            {testMatchClock && (
+                <div className="test-match-clock">Day {testMatchClock.day} · {testMatchClock.ballsLeftToday} balls left</div>
+            )}
         </div>
     );
 };
 
-export const QuadrantScore = ({ player, isCurrent, position }: { player: IPlayer; isCurrent: boolean; position: string }) => (
+export const QuadrantScore = ({ player, isCurrent, position, superOverScore, chase, innings = [] }: { player: IPlayer; isCurrent: boolean; position: string; superOverScore?: SuperOverScore; chase?: Chase; innings?: InningsScore[] }) => (
   <div className={`quadrant-scoreboard ${position} ${isCurrent ? 'current-player' : ''} ${player.isAI ? 'is-ai' : ''} ${player.isAllOut ? 'all-out' : ''}`}>
     {/* <div className="player-id" style={{ color: `var(--${player.color.toLowerCase()})`}}>{player.id}</div> */}
-    <div className="player-score">{player.score}-{player.wickets}</div>
+    {superOverScore ? (
+      <>
+        <div className="player-turns">Super Over</div>
+        <div className="player-score">{superOverScore.runs}-{superOverScore.wickets}</div>
+      </>
+    ) : (
+      <div className="player-score">{player.score}-{player.wickets}</div>
+    )}
     {player.turnsRemaining !== null && <div className="player-turns">{player.turnsRemaining} balls left</div>}
+    {innings.length > 0 && <div className="player-turns">{innings.map(formatInnings).join(' & ')}</div>}
+    {chase && (
+      <div className="player-chase">
+        <div>Target {chase.target}</div>
+        <div>Need {chase.runsRequired}{chase.ballsRemaining !== null && ` off ${chase.ballsRemaining}`}</div>
+        {chase.requiredRunRate !== null && <div>RRR {chase.requiredRunRate.toFixed(2)}</div>}
+      </div>
+    )}
   </div>
 );
 
@@ -0,0 +1,188 @@
+// src/BoardEditorScreen.tsx
+
+import { useState, useMemo } from 'react';
+import type { ChangeEvent } from 'react';
+import { boardLayout, validateBoard } from './engine/boardLayout';
+import { PlayerColor, SquareType } from './engine/types';
+import type { BoardSquare } from './engine/types';
+import { Square } from './App';
+import { STANDARD_BOARD_NAME, deleteSavedBoard, exportBoard, getBoardGridStyle, loadSavedBoards, parseBoardJSON, saveBoard } from './boards';
+import { playSound } from './soundManager';
+
+// Clicking a selected square moves it on to the next type in this order.
+const SQUARE_TYPE_CYCLE = [SquareType.Runs, SquareType.Wicket, SquareType.Extra, SquareType.DotBall, SquareType.SafeZone];
+
+const SQUARE_TYPE_LABELS: Record<SquareType, string> = {
+    [SquareType.Runs]: 'Runs',
+    [SquareType.Wicket]: 'Wicket',
+    [SquareType.Extra]: 'Extra',
+    [SquareType.DotBall]: 'Dot Ball',
+    [SquareType.SafeZone]: 'Safe Zone',
+};
+
+type BoardEditorScreenProps = {
+    onGoHome: () => void;
+};
+
+export const BoardEditorScreen = ({ onGoHome }: BoardEditorScreenProps) => {
+    const [squares, setSquares] = useState<BoardSquare[]>(() => [...boardLayout]);
+    const [name, setName] = useState('My Board');
+    const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+    const [savedBoards, setSavedBoards] = useState(loadSavedBoards);
+    const [message, setMessage] = useState('');
+
+    const problems = useMemo(() => validateBoard(squares), [squares]);
+    const selectedSquare = selectedIndex === null ? null : squares[selectedIndex];
+    const trimmedName = name.trim();
+    const canSave = problems.length === 0 && trimmedName !== '' && trimmedName !== STANDARD_BOARD_NAME;
+
+    const updateSquare = (index: number, changes: Partial<BoardSquare>) => {
+        setSquares(prev => prev.map(square => square.index === index ? { ...square, ...changes } : square));
+    };
+
+    // The first click selects a square; clicking it again changes its type.
+    const handleSquareClick = (square: BoardSquare) => {
+        playSound('click');
+        if (selectedIndex !== square.index) {
+            setSelectedIndex(square.index);
+            return;
+        }
+        const nextType = SQUARE_TYPE_CYCLE[(SQUARE_TYPE_CYCLE.indexOf(square.type) + 1) % SQUARE_TYPE_CYCLE.length];
+        updateSquare(square.index, {
+            type: nextType,
+            value: nextType === SquareType.Runs ? 1 : 0,
+            ownerColor: undefined,
+        });
+    };
+
+    const handleValueChange = (value: string) => {
+        if (selectedIndex === null) return;
+        updateSquare(selectedIndex, { value: Math.max(1, Math.floor(Number(value)) || 1) });
+    };
+
+    const loadIntoEditor = (boardName: string, boardSquares: readonly BoardSquare[]) => {
+        setSquares([...boardSquares]);
+        setName(boardName);
+        setSelectedIndex(null);
+    };
+
+    const handleSave = () => {
+        playSound('click');
+        try {
+            saveBoard({ name: trimmedName, squares });
+            setSavedBoards(loadSavedBoards());
+            setMessage(`Saved "${trimmedName}".`);
+        } catch {
+            setMessage('Could not save: storage is full. Delete an old board first.');
+        }
+    };
+
+    const handleDelete = (boardName: string) => {
+        playSound('click');
+        deleteSavedBoard(boardName);
+        setSavedBoards(loadSavedBoards());
+        setMessage(`Deleted "${boardName}".`);
+    };
+
+    const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Lets the same file be picked again
+        if (!file) return;
+        try {
+            const board = parseBoardJSON(await file.text(), file.name.replace(/\.board\.json$|\.json$/, ''));
+            loadIntoEditor(board.name, board.squares);
+            setMessage(`Imported "${board.name}". Save it to play on it.`);
+        } catch (err) {
+            setMessage(`Could not import ${file.name}: ${err instanceof Error ? err.message : err}`);
+        }
+    };
+
+    return (
+        <div className="board-editor-screen">
+            <div className="board" style={getBoardGridStyle(squares)}>
+                {squares.map(square => (
+                    <Square
+                        key={square.index}
+                        squareInfo={square}
+                        tokens={[]}
+                        isWaitingForChoice={false}
+                        currentPlayerColor={PlayerColor.Blue}
+                        onTokenMove={() => {}}
+                        isAnimating={false}
+                        onClick={() => handleSquareClick(square)}
+                        isSelected={square.index === selectedIndex}
+                    />
+                ))}
+            </div>
+
+            <div className="screen board-editor-panel">
+                <h2>Board Editor</h2>
+
+                {selectedSquare ? (
+                    <div className="setting-row">
+                        <label>Square {selectedSquare.index}: {SQUARE_TYPE_LABELS[selectedSquare.type]}</label>
+                        {selectedSquare.type === SquareType.Runs && (
+                            <input
+                                type="number"
+                                min={1}
+                                value={selectedSquare.value}
+                                onChange={(e) => handleValueChange(e.target.value)}
+                            />
+                        )}
+                        {selectedSquare.type === SquareType.SafeZone && (
+                            <div className="toggle-switch">
+                                <button className={!selectedSquare.ownerColor ? 'active' : ''} onClick={() => updateSquare(selectedSquare.index, { ownerColor: undefined })}>Neutral</button>
+                                {Object.values(PlayerColor).map(color => (
+                                    <button
+                                        key={color}
+                                        className={selectedSquare.ownerColor === color ? 'active' : ''}
+                                        onClick={() => updateSquare(selectedSquare.index, { ownerColor: color })}
+                                    >
+                                        {color}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                ) : (
+                    <p className="board-editor-hint">Click a square to select it, then click it again to change its type.</p>
+                )}
+
+                {problems.length > 0 && (
+                    <ul className="board-editor-problems">
+                        {problems.map(problem => <li key={problem}>{problem}</li>)}
+                    </ul>
+                )}
+
+                <div className="board-editor-save">
+                    <input type="text" placeholder="Board name" value={name} onChange={(e) => setName(e.target.value)} />
+                    <button onClick={handleSave} disabled={!canSave}>Save</button>
+                </div>
+                {message && <p className="board-editor-hint">{message}</p>}
+
+                <div className="saved-boards">
+                    <div className="saved-board">
+                        <span>{STANDARD_BOARD_NAME}</span>
+                        <button onClick={() => loadIntoEditor('My Board', boardLayout)}>Edit a Copy</button>
+                    </div>
+                    {savedBoards.map(board => (
+                        <div key={board.name} className="saved-board">
+                            <span>{board.name}</span>
+                            <button onClick={() => loadIntoEditor(board.name, board.squares)}>Edit</button>
+                            <button onClick={() => exportBoard(board)}>Export</button>
+                            <button className="danger" onClick={() => handleDelete(board.name)}>Delete</button>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="settings-buttons">
+                    <label className="import-button">
+                        Import JSON
+                        <input type="file" accept=".json,application/json" onChange={handleImport} hidden />
+                    </label>
+                    <button onClick={onGoHome}>Back to Home</button>
+                </div>
+            </div>
+        </div>
+    );
+};
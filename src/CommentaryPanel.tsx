@@ -0,0 +1,46 @@
+// src/CommentaryPanel.tsx
+
+import { useEffect, useRef } from 'react';
+import type { Game } from './engine/game';
+import { buildCommentary } from './engine/commentary';
+
+type CommentaryPanelProps = {
+    gameInstance: Game;
+    moveCount?: number; // Only comment on this many moves, so a move isn't called before its token lands
+};
+
+/**
+ * A scrolling ball-by-ball commentary feed. It is built from the game's history, so it reads
+ * the same for the players and for anyone watching an online game.
+ */
+export const CommentaryPanel = ({ gameInstance, moveCount = gameInstance.history.length }: CommentaryPanelProps) => {
+    const lines = buildCommentary(gameInstance).filter(line => line.moveIndex < moveCount);
+    const feedRef = useRef<HTMLOListElement>(null);
+
+    // Keep the latest line in view as the feed grows.
+    useEffect(() => {
+        const feed = feedRef.current;
+        if (feed) feed.scrollTop = feed.scrollHeight;
+    }, [lines.length]);
+
+    return (
+        <aside className="commentary-panel">
+            <h3>Commentary</h3>
+            <ol ref={feedRef} aria-live="polite">
+                {lines.length === 0 && <li className="commentary-empty">Players are out in the middle. Play!</li>}
+                {lines.map((line, index) => {
+                    const player = gameInstance.players.find(p => p.id === line.playerId);
+                    return (
+                        <li
+                            key={index}
+                            className={`commentary-${line.kind}`}
+                            style={player ? { borderLeftColor: `var(--${player.color.toLowerCase()})` } : undefined}
+                        >
+                            {line.text}
+                        </li>
+                    );
+                })}
+            </ol>
+        </aside>
+    );
+};
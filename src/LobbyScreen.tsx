@@ -1,24 +1,58 @@
 // src/LobbyScreen.tsx
 
 import { useState } from 'react';
-import { supabase } from './supabaseClient';
+import { supabase, getFunctionErrorMessage } from './supabaseClient';
 import { useAuth } from './AuthContext';
 import { useSettings } from './SettingsContext'; // Import useSettings
-import { Game } from './game'; // Import the Game class
-import { GameMode, PlayerColor } from './types'; // Import necessary types
+import { Game, getSeatColors } from './engine/game'; // Import the Game class
+import { AIDifficulty, GameMode } from './engine/types'; // Import necessary types
+import type { MatchFormat } from './engine/types';
+import { BUILT_IN_RULE_PRESETS, encodeRules, loadSavedRulePresets, parseRules } from './rulePresets';
+import { playSound } from './soundManager';
+import { MatchFormatPanel } from './MatchFormatPanel';
+
+const ONLINE_MODES = [
+    { mode: GameMode.T20, label: 'T20' },
+    { mode: GameMode.FiftyFifty, label: '50-50' },
+    { mode: GameMode.Test, label: 'Test Match' },
+    { mode: GameMode.Custom, label: 'Custom' },
+];
+const SEAT_COUNTS = [2, 3, 4];
+// Fill-ins play on the server, which has no time for the Expert search on every one of their turns.
+const AI_DIFFICULTIES = [AIDifficulty.Easy, AIDifficulty.Medium, AIDifficulty.Hard];
+// The rules choice that plays by the host's own settings rather than a preset
+const OWN_RULES = '';
 
 type LobbyScreenProps = {
+    onEnterWaitingRoom: (gameId: string) => void;
+    // For players rejoining a game that has already started
     onGameStart: (gameId: string) => void;
 };
 
-export const LobbyScreen = ({ onGameStart }: LobbyScreenProps) => {
+export const LobbyScreen = ({ onEnterWaitingRoom, onGameStart }: LobbyScreenProps) => {
     const { user } = useAuth();
     const { settings } = useSettings(); // Get current game settings
     const [gameCode, setGameCode] = useState('');
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState('');
 
-    const handleCreateGame = async () => {
+    // The host's choices for a new game
+    const [mode, setMode] = useState(GameMode.T20);
+    const [seatCount, setSeatCount] = useState(2);
+    const [rulePresetName, setRulePresetName] = useState(OWN_RULES);
+    const [aiFillIns, setAIFillIns] = useState(false);
+    const [aiDifficulty, setAIDifficulty] = useState(AIDifficulty.Medium);
+    const [rulePresets] = useState(() => [...BUILT_IN_RULE_PRESETS, ...loadSavedRulePresets()]);
+
+    const rules = rulePresets.find(preset => preset.name === rulePresetName)?.rules ?? parseRules(settings);
+
+    const choose = <T,>(setter: (value: T) => void, value: T) => {
+        playSound('click');
+        setter(value);
+    };
+
+    // Custom games are created from the format panel, which passes the format the host built.
+    const handleCreateGame = async (format?: MatchFormat) => {
         if (!user) return;
         setLoading(true);
         setError('');
@@ -28,60 +62,35 @@ export const LobbyScreen = ({ onGameStart }: LobbyScreenProps) => {
             const { data: codeData, error: codeError } = await supabase.rpc('generate_game_code');
             if (codeError) throw codeError;
 
-            // ========================================================================
-            // NEW LOGIC: Initialize the game state
-            // ========================================================================
-            
-            // Define the players for this new game.
-            // For now, we'll hardcode 2 players.
-            const playerInfo = [
-                { userId: user.id, id: 1, name: `Player 1 (Blue)`, color: PlayerColor.Blue },
-                // We will add Player 2 when they join
-            ];
-
-            // Create a new Game class instance.
-            // We pass an empty array for colors because we will set players manually.
-            const newGameInstance = new Game(GameMode.T20, [], settings);
-            
-            // Manually set the players in the instance
-            newGameInstance.players = playerInfo.map(p => {
-                const player = newGameInstance.players.find(pl => pl.color === p.color)!;
-                // You would need to add a method to your Player class or manually set these properties
-                // Let's assume we can modify the player object for now. This is a simplification.
-                // In a real app, you would have a more robust player management system.
-                // For now, let's just create a new game state with the host.
-                return player;
-            });
-
-            // For a simpler start, let's instantiate the game with just the host.
-            // The logic to add players can be a separate step.
-            const initialGame = new Game(GameMode.T20, [PlayerColor.Blue, PlayerColor.Yellow], settings);
-            
-            // Serialize the initial game state to JSON
-            const initialGameStateJSON = initialGame.toJSON();
-
+            // Until the host starts the game, its state holds the host's choices: the mode, the
+            // rules and a seat for each player. Seats an AI fills in if nobody joins are marked
+            // `isAI`. The start-game function builds the real state from the seats that are taken.
+            const setupGame = new Game(mode, getSeatColors(seatCount), rules, undefined, { format });
+            setupGame.aiDifficulty = aiDifficulty;
+            const setupState = setupGame.toJSON();
+            setupState.players = setupState.players.map((p, index) => ({ ...p, isAI: aiFillIns && index > 0 }));
+            const hostSeat = setupState.players[0];
 
             const newGameData = {
                 game_code: codeData,
                 host_id: user.id,
-                // The `players` column stores info about who is in the game (user IDs, colors)
-                players: [{ userId: user.id, id: 1, color: 'Blue' }], 
+                status: 'waiting',
+                // The `players` column stores info about who is in the game (user IDs, colors).
+                // The host takes the first seat, and is ready by pressing Start.
+                players: [{ userId: user.id, id: hostSeat.id, color: hostSeat.color, ready: true }],
                 // The `game_state` column stores the full serialized game object
-                game_state: initialGameStateJSON, // <-- ADD THIS LINE
+                game_state: setupState,
             };
 
             const { data, error } = await supabase
                 .from('games')
                 .insert(newGameData)
-                .select()
+                .select('id')
                 .single();
 
             if (error) throw error;
-            
-            // The rest is the same...
-            alert(`Game created! Share code: ${data.game_code}`);
-            onGameStart(data.id);
 
+            onEnterWaitingRoom(data.id);
         } catch (err: any) {
             setError(err.message);
             console.error(err);
@@ -90,7 +99,8 @@ export const LobbyScreen = ({ onGameStart }: LobbyScreenProps) => {
         }
     };
 
-    const handleJoinGame = async () => {
+    // Spectators go through the same function, which finds the game without seating them.
+    const handleJoinGame = async (spectate: boolean) => {
         if (!user || !gameCode) return;
         setLoading(true);
         setError('');
@@ -98,14 +108,17 @@ export const LobbyScreen = ({ onGameStart }: LobbyScreenProps) => {
         try {
             // Call our secure Edge Function instead of updating from the client
             const { data, error } = await supabase.functions.invoke('join-game', {
-                body: { gameCode: gameCode.toUpperCase() }
+                body: { gameCode: gameCode.toUpperCase(), spectate }
             });
 
-            if (error) throw new Error(error.message); // Handles network errors
-            if (data.error) throw new Error(data.error); // Handles errors from inside the function
+            if (error) throw new Error(await getFunctionErrorMessage(error)); // Network errors, and errors from inside the function
 
-            // The function returns the gameId on success
-            onGameStart(data.gameId);
+            // The function returns the gameId on success, and whether the game has started yet
+            if (data.status === 'waiting') {
+                onEnterWaitingRoom(data.gameId);
+            } else {
+                onGameStart(data.gameId);
+            }
 
         } catch (err: any) {
             setError(err.message);
@@ -118,10 +131,55 @@ export const LobbyScreen = ({ onGameStart }: LobbyScreenProps) => {
     return (
         <div className="screen lobby-screen">
             <h2>Multiplayer Lobby</h2>
+            <div className="settings-list lobby-setup">
+                <div className="setting-row">
+                    <label>Mode</label>
+                    <div className="toggle-switch">
+                        {ONLINE_MODES.map(option => (
+                            <button key={option.mode} className={mode === option.mode ? 'active' : ''} onClick={() => choose(setMode, option.mode)}>{option.label}</button>
+                        ))}
+                    </div>
+                </div>
+                <div className="setting-row">
+                    <label>Players</label>
+                    <div className="toggle-switch">
+                        {SEAT_COUNTS.map(count => (
+                            <button key={count} className={seatCount === count ? 'active' : ''} onClick={() => choose(setSeatCount, count)}>{count}</button>
+                        ))}
+                    </div>
+                </div>
+                <div className="setting-row">
+                    <label htmlFor="lobby-rules">Rules</label>
+                    <select id="lobby-rules" value={rulePresetName} onChange={(e) => setRulePresetName(e.target.value)}>
+                        <option value={OWN_RULES}>My settings ({encodeRules(parseRules(settings))})</option>
+                        {rulePresets.map(preset => <option key={preset.name} value={preset.name}>{preset.name} ({encodeRules(preset.rules)})</option>)}
+                    </select>
+                </div>
+                <div className="setting-row">
+                    <label>AI Fills Empty Seats</label>
+                    <div className="toggle-switch">
+                        <button className={aiFillIns ? 'active' : ''} onClick={() => choose(setAIFillIns, true)}>On</button>
+                        <button className={!aiFillIns ? 'active' : ''} onClick={() => choose(setAIFillIns, false)}>Off</button>
+                    </div>
+                </div>
+                {aiFillIns && (
+                    <div className="setting-row">
+                        <label>AI Difficulty</label>
+                        <div className="toggle-switch">
+                            {AI_DIFFICULTIES.map(difficulty => (
+                                <button key={difficulty} className={aiDifficulty === difficulty ? 'active' : ''} onClick={() => choose(setAIDifficulty, difficulty)}>{difficulty}</button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </div>
+            {mode === GameMode.Custom && <MatchFormatPanel onStart={(format) => handleCreateGame(format)} />}
             <div className="lobby-actions">
-                <button onClick={handleCreateGame} disabled={loading}>
-                    {loading ? 'Creating...' : 'Create Game'}
-                </button>
+                {mode !== GameMode.Custom && (
+                    <button onClick={() => handleCreateGame()} disabled={loading}>
+                        {loading ? 'Creating...' : 'Create Game'}
+                    </button>
+                )}
                 <div className="join-game">
                     <input
                         type="text"
@@ -130,9 +188,10 @@ export const LobbyScreen = ({ onGameStart }: LobbyScreenProps) => {
                         onChange={(e) => setGameCode(e.target.value)}
                         disabled={loading}
                     />
-                    <button onClick={handleJoinGame} disabled={loading}>
+                    <button onClick={() => handleJoinGame(false)} disabled={loading}>
                         {loading ? 'Joining...' : 'Join Game'}
                     </button>
+                    <button onClick={() => handleJoinGame(true)} disabled={loading}>Watch</button>
                 </div>
             </div>
             {error && <p className="error-message">{error}</p>}
@@ -0,0 +1,57 @@
+// src/MatchExportPanel.tsx
+
+import { useState } from 'react';
+import type { Game } from './engine/game';
+import { exportBallsCSV, exportMatchJSON, exportScorecardText } from './engine/export';
+import { playSound } from './soundManager';
+import { downloadFile } from './download';
+
+type ExportFormat = {
+    label: string;
+    extension: string;
+    mimeType: string;
+    build: (game: Game) => string;
+};
+
+const EXPORT_FORMATS: ExportFormat[] = [
+    { label: 'Scorecard (text)', extension: 'txt', mimeType: 'text/plain', build: exportScorecardText },
+    { label: 'Ball by ball (CSV)', extension: 'csv', mimeType: 'text/csv', build: exportBallsCSV },
+    { label: 'Match (JSON)', extension: 'json', mimeType: 'application/json', build: game => JSON.stringify(exportMatchJSON(game), null, 2) },
+];
+
+/**
+ * Download or copy the finished match as a text scorecard, a CSV of every ball, or JSON.
+ */
+export const MatchExportPanel = ({ gameInstance }: { gameInstance: Game }) => {
+    const [status, setStatus] = useState('');
+
+    const handleDownload = (format: ExportFormat) => {
+        playSound('click');
+        const fileName = gameInstance.seed === null ? 'cricket-match' : `cricket-match-${gameInstance.seed}`;
+        downloadFile(`${fileName}.${format.extension}`, format.build(gameInstance), format.mimeType);
+    };
+
+    const handleCopy = async (format: ExportFormat) => {
+        playSound('click');
+        try {
+            await navigator.clipboard.writeText(format.build(gameInstance));
+            setStatus(`${format.label} copied to the clipboard.`);
+        } catch {
+            setStatus('Could not copy. Try downloading instead.');
+        }
+    };
+
+    return (
+        <div className="match-export">
+            <h4>Export</h4>
+            {EXPORT_FORMATS.map(format => (
+                <div key={format.extension} className="match-export-row">
+                    <span>{format.label}</span>
+                    <button onClick={() => handleDownload(format)}>Download</button>
+                    <button onClick={() => handleCopy(format)}>Copy</button>
+                </div>
+            ))}
+            {status && <p className="match-export-status" role="status">{status}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,108 @@
+// src/MatchFormatPanel.tsx
+
+import { useState } from 'react';
+import type { MatchFormat } from './engine/types';
+import { BUILT_IN_PRESETS, deletePreset, loadSavedPresets, savePreset } from './matchFormats';
+import { playSound } from './soundManager';
+
+type MatchFormatPanelProps = {
+    onStart: (format: MatchFormat) => void;
+};
+
+// Turns a number input into a whole number no smaller than `min`.
+const toCount = (value: string, min: number) => Math.max(min, Math.floor(Number(value)) || min);
+
+/**
+ * Lets the host build a Custom match format, start from a preset, and save their own presets.
+ */
+export const MatchFormatPanel = ({ onStart }: MatchFormatPanelProps) => {
+    const [format, setFormat] = useState<MatchFormat>(BUILT_IN_PRESETS[0].format);
+    const [savedPresets, setSavedPresets] = useState(loadSavedPresets);
+    const [presetName, setPresetName] = useState('');
+    const [saveStatus, setSaveStatus] = useState('');
+
+    const builtInNames = BUILT_IN_PRESETS.map(p => p.name);
+    const trimmedName = presetName.trim();
+    const canSave = trimmedName !== '' && !builtInNames.includes(trimmedName);
+    const isUnlimited = format.ballsPerPlayer === null;
+
+    const handleSave = () => {
+        playSound('click');
+        try {
+            savePreset({ name: trimmedName, format });
+            setSavedPresets(loadSavedPresets());
+            setPresetName('');
+            setSaveStatus('');
+        } catch {
+            setSaveStatus('Could not save: storage is full. Delete an old preset first.');
+        }
+    };
+
+    const handleDelete = (name: string) => {
+        playSound('click');
+        deletePreset(name);
+        setSavedPresets(loadSavedPresets());
+    };
+
+    return (
+        <div className="match-format-panel">
+            <div className="format-presets">
+                {[...BUILT_IN_PRESETS, ...savedPresets].map(preset => (
+                    <span key={preset.name} className="format-preset">
+                        <button onClick={() => { playSound('click'); setFormat(preset.format); }}>{preset.name}</button>
+                        {!builtInNames.includes(preset.name) && (
+                            <button className="danger" title={`Delete ${preset.name}`} onClick={() => handleDelete(preset.name)}>×</button>
+                        )}
+                    </span>
+                ))}
+            </div>
+
+            <div className="format-fields">
+                <label>
+                    Balls per player
+                    <input
+                        type="number"
+                        min={1}
+                        value={format.ballsPerPlayer ?? ''}
+                        disabled={isUnlimited}
+                        onChange={(e) => setFormat(f => ({ ...f, ballsPerPlayer: toCount(e.target.value, 1) }))}
+                    />
+                </label>
+                <label className="format-unlimited">
+                    <input
+                        type="checkbox"
+                        checked={isUnlimited}
+                        onChange={(e) => setFormat(f => ({ ...f, ballsPerPlayer: e.target.checked ? null : 20 }))}
+                    />
+                    Play until all out
+                </label>
+                <label>
+                    Wickets per innings
+                    <input
+                        type="number"
+                        min={1}
+                        value={format.wicketsPerInnings}
+                        onChange={(e) => setFormat(f => ({ ...f, wicketsPerInnings: toCount(e.target.value, 1) }))}
+                    />
+                </label>
+                <label>
+                    Powerplay balls (double runs)
+                    <input
+                        type="number"
+                        min={0}
+                        value={format.powerplayBalls}
+                        onChange={(e) => setFormat(f => ({ ...f, powerplayBalls: toCount(e.target.value, 0) }))}
+                    />
+                </label>
+            </div>
+
+            <div className="format-save">
+                <input type="text" placeholder="Preset name" value={presetName} onChange={(e) => setPresetName(e.target.value)} />
+                <button onClick={handleSave} disabled={!canSave}>Save Preset</button>
+            </div>
+            {saveStatus && <p className="save-status" role="status">{saveStatus}</p>}
+
+            <button className="format-start" onClick={() => onStart(format)}>Start Custom Game</button>
+        </div>
+    );
+};
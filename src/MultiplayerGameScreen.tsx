@@ -1,25 +1,28 @@
 // src/MultiplayerGameScreen.tsx
 
 import { useState, useEffect, useRef } from 'react';
-import { supabase } from './supabaseClient';
+import { supabase, getFunctionErrorMessage } from './supabaseClient';
 import { useAuth } from './AuthContext';
-import { Game } from './game';
-import type { DiceResult, AnimatingToken as AnimatingTokenData } from './types';
-import { playSound } from './soundManager';
+import { Game } from './engine/game';
+import type { DiceResult, GameEvent } from './engine/types';
+import type { AnimatingToken as AnimatingTokenData } from './animation';
+import { playSound, playEventSounds } from './soundManager';
 
 import {
   Board
 } from './App';
+import { CommentaryPanel } from './CommentaryPanel';
 
 // Animation Constants
 const LIFT_DURATION = 200;
 const MOVE_DURATION = 180;
 const LAND_DURATION = 300;
+const MIN_ROLL_DURATION = 500;
 
 
 type MultiplayerGameScreenProps = {
     gameId: string;
-    onGameEnd: () => void;
+    onGameEnd: (game: Game) => void;
 };
 
 export const MultiplayerGameScreen = ({ gameId, onGameEnd }: MultiplayerGameScreenProps) => {
@@ -27,6 +30,8 @@ export const MultiplayerGameScreen = ({ gameId, onGameEnd }: MultiplayerGameScre
     const [game, setGame] = useState<Game | null>(null);
     const [loading, setLoading] = useState(true);
     const [localPlayerId, setLocalPlayerId] = useState<number | null>(null);
+    // Why the game could not be loaded, or why the server turned down the last action
+    const [errorMessage, setErrorMessage] = useState('');
 
     // --- All UI/Animation state from the original GameScreen ---
     const [diceResult, setDiceResult] = useState<DiceResult | null>(null);
@@ -49,11 +54,20 @@ export const MultiplayerGameScreen = ({ gameId, onGameEnd }: MultiplayerGameScre
 
             if (error || !data || !data.game_state) {
                 console.error("Could not fetch game", error);
-                // TODO: Handle error, maybe navigate away
+                setErrorMessage('The game could not be found.');
+                setLoading(false);
                 return;
             }
 
-            const initialGame = Game.fromJSON(data.game_state);
+            let initialGame: Game;
+            try {
+                initialGame = Game.fromJSON(data.game_state);
+            } catch (err) {
+                console.error('Could not load game state', err);
+                setErrorMessage((err as Error).message);
+                setLoading(false);
+                return;
+            }
             setGame(initialGame);
             previousGameRef.current = initialGame;
 
@@ -61,6 +75,12 @@ export const MultiplayerGameScreen = ({ gameId, onGameEnd }: MultiplayerGameScre
             const self = data.players.find((p: any) => p.userId === user?.id);
             if (self) {
                 setLocalPlayerId(self.id);
+
+                // If we reloaded after rolling but before moving, the server still holds our roll.
+                if (initialGame.pendingDiceResult && initialGame.getCurrentPlayer().id === self.id) {
+                    setDiceResult(initialGame.pendingDiceResult);
+                    setWaitingForTokenChoice(true);
+                }
             }
 
             setLoading(false);
@@ -72,7 +92,13 @@ export const MultiplayerGameScreen = ({ gameId, onGameEnd }: MultiplayerGameScre
                     (payload) => {
                         console.log('Real-time: Game state updated!');
                         const newGameState = (payload.new as any).game_state;
-                        setGame(Game.fromJSON(newGameState));
+                        // A damaged update leaves the last good state on screen.
+                        try {
+                            setGame(Game.fromJSON(newGameState));
+                        } catch (err) {
+                            console.error('Could not load game state update', err);
+                            setErrorMessage((err as Error).message);
+                        }
                     }
                 )
                 .subscribe();
@@ -112,33 +138,52 @@ export const MultiplayerGameScreen = ({ gameId, onGameEnd }: MultiplayerGameScre
     }, [game, localPlayerId]);
 
 
+    if (!loading && !game) {
+        return <div className="screen"><h2>Could not load the game</h2><p className="error-message">{errorMessage}</p></div>;
+    }
     if (loading || !game) {
         return <div className="screen"><h2>Loading Game...</h2></div>;
     }
 
-    if (game.isGameOver) { onGameEnd(); }
+    if (game.isGameOver) { onGameEnd(game); }
 
     const currentPlayer = game.getCurrentPlayer();
-    const isMyTurn = localPlayerId === currentPlayer.id && !currentPlayer.isAllOut;
+    const isMyTurn = localPlayerId === currentPlayer.id && game.isInPlay(currentPlayer);
     const isAnimating = !!animatingToken || returningTokens.length > 0;
 
     const allTokens = game.players
-        .filter(p => !p.isAllOut)
+        .filter(p => game.isInPlay(p))
         .flatMap(p => p.tokens.map(t => ({ ...t, color: p.color })));
 
     // --- Rewired handler functions ---
-    const handleRollDice = () => {
+    const handleRollDice = async () => {
         if (!isMyTurn || isDiceRolling || isAnimating || waitingForTokenChoice) return;
 
         setIsDiceRolling(true);
         playSound('dice');
-        // We roll the dice client-side for immediate feedback. The server will validate the final move.
-        const result = game.rollDice();
-        setTimeout(() => {
+        const rollStartedAt = Date.now();
+
+        // The server rolls the dice. We keep the rolling animation going until it answers.
+        try {
+            const { data, error } = await supabase.functions.invoke('make-move', {
+                body: { gameId, action: 'ROLL_DICE' }
+            });
+
+            if (error) throw new Error(await getFunctionErrorMessage(error));
+            setErrorMessage('');
+
+            const result: DiceResult = data.diceResult;
+            const remainingRollTime = Math.max(0, MIN_ROLL_DURATION - (Date.now() - rollStartedAt));
+            setTimeout(() => {
+                setIsDiceRolling(false);
+                setDiceResult(result);
+                setWaitingForTokenChoice(true);
+            }, remainingRollTime);
+        } catch (err) {
+            console.error('Error rolling dice:', err);
+            setErrorMessage((err as Error).message);
             setIsDiceRolling(false);
-            setDiceResult(result);
-            setWaitingForTokenChoice(true);
-        }, 500);
+        }
     };
 
     const handleTokenMove = async (tokenId: number) => {
@@ -152,7 +197,7 @@ export const MultiplayerGameScreen = ({ gameId, onGameEnd }: MultiplayerGameScre
         const path = game.getMovementPath(token.positionIndex, diceResult);
         
         // Use the same animation logic as single-player
-        setAnimatingToken({ playerColor: player.color, tokenId: tokenId as 1 | 2, path, currentStep: 0, phase: 'lifting', startPosition: token.positionIndex, level: token.level });
+        setAnimatingToken({ playerColor: player.color, tokenId, path, currentStep: 0, phase: 'lifting', startPosition: token.positionIndex, level: token.level });
         setTimeout(() => {
             path.forEach((_, index) => {
                 setTimeout(() => {
@@ -174,18 +219,22 @@ export const MultiplayerGameScreen = ({ gameId, onGameEnd }: MultiplayerGameScre
 
         // --- SERVER ACTION: Concurrently, send the move to the server ---
         try {
-            const { error } = await supabase.functions.invoke('make-move', {
+            const { data, error } = await supabase.functions.invoke('make-move', {
                 body: {
                     gameId,
                     action: 'PLAY_TURN',
-                    payload: { tokenId, diceResult }
+                    payload: { tokenId }
                 }
             });
 
-            if (error) throw error;
+            if (error) throw new Error(await getFunctionErrorMessage(error));
+            setErrorMessage('');
+            const events: GameEvent[] = data.events ?? [];
+            playEventSounds(events, game.board);
             console.log('Move successfully sent to server.');
         } catch (err) {
             console.error('Error making move:', err);
+            setErrorMessage((err as Error).message);
             // TODO: Here you would handle a failed move, e.g., reverting the optimistic UI change.
         } finally {
             // Reset local dice state. The game state will be updated by the subscription.
@@ -193,21 +242,52 @@ export const MultiplayerGameScreen = ({ gameId, onGameEnd }: MultiplayerGameScre
         }
     };
 
+    const canDeclare = isMyTurn && !diceResult && !isDiceRolling && !isAnimating && game.canDeclare();
+
+    const handleDeclare = async () => {
+        if (!canDeclare) return;
+        playSound('click');
+        try {
+            const { error } = await supabase.functions.invoke('make-move', {
+                body: { gameId, action: 'DECLARE' }
+            });
+            if (error) throw new Error(await getFunctionErrorMessage(error));
+            setErrorMessage('');
+        } catch (err) {
+            console.error('Error declaring:', err);
+            setErrorMessage((err as Error).message);
+        }
+    };
+
 
     return (
-        <Board
-            tokens={allTokens}
-            players={game.players}
-            currentPlayer={currentPlayer}
-            animatingToken={animatingToken}
-            returningTokens={returningTokens}
-            onRollDice={handleRollDice}
-            onTokenMove={handleTokenMove}
-            // A player can only make a choice if it's their turn
-            waitingForTokenChoice={isMyTurn && waitingForTokenChoice}
-            isGameOver={game.isGameOver}
-            diceResult={diceResult}
-            isDiceRolling={isDiceRolling}
-        />
+        <div className="game-screen">
+            <div className="board-with-commentary">
+                <Board
+                    board={game.board}
+                    tokens={allTokens}
+                    players={game.players}
+                    currentPlayer={currentPlayer}
+                    animatingToken={animatingToken}
+                    returningTokens={returningTokens}
+                    onRollDice={handleRollDice}
+                    onTokenMove={handleTokenMove}
+                    // A player can only make a choice if it's their turn
+                    waitingForTokenChoice={isMyTurn && waitingForTokenChoice}
+                    isGameOver={game.isGameOver}
+                    diceResult={diceResult}
+                    isDiceRolling={isDiceRolling}
+                    superOver={game.getCurrentSuperOver()}
+                    chase={game.getChase()}
+                    isFielding={game.isFielding(game.getCurrentPlayer())}
+                    innings={game.innings}
+                    testMatchClock={game.getTestMatchClock()}
+                    onDeclare={canDeclare ? handleDeclare : undefined}
+                />
+                <CommentaryPanel gameInstance={game} />
+            </div>
+            {localPlayerId === null && <p className="spectating">Spectating · the board and commentary follow the game live</p>}
+            {errorMessage && <p className="error-message">{errorMessage}</p>}
+        </div>
     );
 };
\ No newline at end of file
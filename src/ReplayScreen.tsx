@@ -0,0 +1,111 @@
+// src/ReplayScreen.tsx
+
+import { useState, useEffect, useMemo } from 'react';
+import type { Game } from './engine/game';
+import { buildReplayFrames } from './engine/replay';
+import { Board } from './App';
+import { CommentaryPanel } from './CommentaryPanel';
+import { playSound } from './soundManager';
+
+const REPLAY_STEP_DURATION = 800; // Time each move stays on screen while playing
+
+type ReplayScreenProps = {
+    gameInstance: Game;
+    onBack: () => void;
+};
+
+export const ReplayScreen = ({ gameInstance, onBack }: ReplayScreenProps) => {
+    const frames = useMemo(() => buildReplayFrames(gameInstance), [gameInstance]);
+    const lastFrameIndex = frames.length - 1;
+    const [frameIndex, setFrameIndex] = useState(0);
+    const [isPlaying, setIsPlaying] = useState(false);
+
+    // While playing, step forward on a timer and stop at the last move.
+    useEffect(() => {
+        if (!isPlaying) return;
+        if (frameIndex >= lastFrameIndex) {
+            setIsPlaying(false);
+            return;
+        }
+        const timeoutId = setTimeout(() => setFrameIndex(i => i + 1), REPLAY_STEP_DURATION);
+        return () => clearTimeout(timeoutId);
+    }, [isPlaying, frameIndex, lastFrameIndex]);
+
+    const { game, move } = frames[frameIndex];
+    // Highlight whoever made the move we are looking at.
+    const mover = move ? game.players.find(p => p.id === move.playerId)! : game.getCurrentPlayer();
+
+    const tokens = game.players
+        .filter(p => game.isInPlay(p))
+        .flatMap(p => p.tokens.map(t => ({ ...t, color: p.color })));
+
+    const stepTo = (index: number) => {
+        setIsPlaying(false);
+        setFrameIndex(Math.max(0, Math.min(lastFrameIndex, index)));
+    };
+
+    const togglePlay = () => {
+        playSound('click');
+        // Playing from the end starts the replay over.
+        if (!isPlaying && frameIndex >= lastFrameIndex) setFrameIndex(0);
+        setIsPlaying(p => !p);
+    };
+
+    let caption = 'Start of the game';
+    if (!move && frameIndex > 0) {
+        // Only a declaration after the last move has a frame without a move.
+        const declaration = game.innings.at(-1);
+        caption = `${game.players.find(p => p.id === declaration?.playerId)?.name ?? 'The batter'} declared`;
+    }
+    if (move) {
+        caption = `${mover.name} moved ${move.fielding ? 'fielder' : 'token'} ${move.tokenId} from ${move.from} to ${move.to}`;
+        if (move.runs > 0) caption += ` · ${move.runs} runs`;
+        if (move.wickets > 0) caption += ' · WICKET';
+        if (move.kills.length > 0) caption += ` · ${move.kills.length} kill${move.kills.length > 1 ? 's' : ''}`;
+    }
+
+    return (
+        <div className="replay-screen">
+            <div className="board-with-commentary">
+                <Board
+                    board={game.board}
+                    tokens={tokens}
+                    players={game.players}
+                    currentPlayer={mover}
+                    animatingToken={null}
+                    returningTokens={[]}
+                    onRollDice={() => {}}
+                    onTokenMove={() => {}}
+                    waitingForTokenChoice={false}
+                    isGameOver={false}
+                    diceResult={move?.diceResult ?? null}
+                    isDiceRolling={false}
+                    superOver={game.getCurrentSuperOver()}
+                    chase={game.getChase()}
+                    isFielding={move ? !!move.fielding : game.isFielding(mover)}
+                    innings={game.innings}
+                    testMatchClock={game.getTestMatchClock()}
+                />
+                <CommentaryPanel gameInstance={game} />
+            </div>
+            <div className="replay-controls">
+                <p className="replay-caption">Move {frameIndex} / {lastFrameIndex}: {caption}</p>
+                <input
+                    type="range"
+                    min={0}
+                    max={lastFrameIndex}
+                    value={frameIndex}
+                    onChange={(e) => stepTo(Number(e.target.value))}
+                />
+                <div className="replay-buttons">
+                    <button title="First move" onClick={() => stepTo(0)} disabled={frameIndex === 0}>⏮</button>
+                    <button title="Step back" onClick={() => stepTo(frameIndex - 1)} disabled={frameIndex === 0}>⏪</button>
+                    <button title={isPlaying ? 'Pause' : 'Play'} onClick={togglePlay}>{isPlaying ? '⏸' : '▶'}</button>
+                    <button title="Step forward" onClick={() => stepTo(frameIndex + 1)} disabled={frameIndex === lastFrameIndex}>⏩</button>
+                    <button title="Last move" onClick={() => stepTo(lastFrameIndex)} disabled={frameIndex === lastFrameIndex}>⏭</button>
+                </div>
+                <button className="secondary" onClick={onBack}>Back to Results</button>
+            </div>
+        </div>
+    );
+};
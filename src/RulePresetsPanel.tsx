@@ -0,0 +1,126 @@
+// src/RulePresetsPanel.tsx
+
+import { useState } from 'react';
+import { useSettings } from './SettingsContext';
+import {
+    BUILT_IN_RULE_PRESETS, areSameRules, decodeRules, deleteRulePreset, encodeRules, isBuiltInRulePreset,
+    loadSavedRulePresets, parseRules, renameRulePreset, saveRulePreset,
+} from './rulePresets';
+import type { RulePreset } from './rulePresets';
+import { playSound } from './soundManager';
+
+/**
+ * Applies built-in and saved rule presets, saves the current rules as a preset, renames and
+ * deletes saved ones, and shares rules as a short code.
+ */
+export const RulePresetsPanel = () => {
+    const { settings, setSettings } = useSettings();
+    const [savedPresets, setSavedPresets] = useState(loadSavedRulePresets);
+    const [presetName, setPresetName] = useState('');
+    // The saved preset being renamed, if any. The new name is typed into `presetName`.
+    const [renaming, setRenaming] = useState<string | null>(null);
+    const [shareCode, setShareCode] = useState('');
+    const [message, setMessage] = useState('');
+
+    const rules = parseRules(settings);
+    const currentCode = encodeRules(rules);
+    const trimmedName = presetName.trim();
+    const canSave = trimmedName !== '' && !isBuiltInRulePreset(trimmedName);
+
+    const applyPreset = (preset: RulePreset) => {
+        playSound('click');
+        setSettings(prev => ({ ...prev, ...preset.rules }));
+        setMessage('');
+    };
+
+    const handleSave = () => {
+        playSound('click');
+        try {
+            if (renaming) {
+                renameRulePreset(renaming, trimmedName);
+                setRenaming(null);
+            } else {
+                saveRulePreset({ name: trimmedName, rules });
+            }
+            setSavedPresets(loadSavedRulePresets());
+            setPresetName('');
+        } catch {
+            setMessage('Could not save: storage is full. Delete an old preset first.');
+        }
+    };
+
+    const startRenaming = (name: string) => {
+        playSound('click');
+        setRenaming(name);
+        setPresetName(name);
+    };
+
+    const handleDelete = (name: string) => {
+        playSound('click');
+        deleteRulePreset(name);
+        if (renaming === name) setRenaming(null);
+        setSavedPresets(loadSavedRulePresets());
+    };
+
+    const handleCopyCode = async () => {
+        playSound('click');
+        try {
+            await navigator.clipboard.writeText(currentCode);
+            setMessage(`Copied ${currentCode} to the clipboard.`);
+        } catch {
+            setMessage(`Could not copy. The code is ${currentCode}.`);
+        }
+    };
+
+    // A pasted code is applied straight away and saved as a preset when it has a name.
+    const handleUseCode = () => {
+        playSound('click');
+        try {
+            const sharedRules = decodeRules(shareCode);
+            setSettings(prev => ({ ...prev, ...sharedRules }));
+            if (canSave && !renaming) {
+                saveRulePreset({ name: trimmedName, rules: sharedRules });
+                setSavedPresets(loadSavedRulePresets());
+                setPresetName('');
+            }
+            setShareCode('');
+            setMessage('Rules applied.');
+        } catch (err) {
+            setMessage((err as Error).message);
+        }
+    };
+
+    return (
+        <div className="rule-presets">
+            <div className="format-presets">
+                {[...BUILT_IN_RULE_PRESETS, ...savedPresets].map(preset => (
+                    <span key={preset.name} className="format-preset">
+                        <button className={areSameRules(preset.rules, rules) ? 'active' : ''} onClick={() => applyPreset(preset)}>{preset.name}</button>
+                        {!isBuiltInRulePreset(preset.name) && (
+                            <>
+                                <button title={`Rename ${preset.name}`} onClick={() => startRenaming(preset.name)}>✎</button>
+                                <button className="danger" title={`Delete ${preset.name}`} onClick={() => handleDelete(preset.name)}>×</button>
+                            </>
+                        )}
+                    </span>
+                ))}
+            </div>
+
+            <div className="format-save">
+                <input type="text" placeholder="Preset name" value={presetName} onChange={(e) => setPresetName(e.target.value)} />
+                <button onClick={handleSave} disabled={!canSave}>{renaming ? `Rename ${renaming}` : 'Save Current Rules'}</button>
+                {renaming && <button onClick={() => { setRenaming(null); setPresetName(''); }}>Cancel</button>}
+            </div>
+
+            <div className="format-save">
+                <span className="share-code">Share code: <strong>{currentCode}</strong></span>
+                <button onClick={handleCopyCode}>Copy</button>
+            </div>
+            <div className="format-save">
+                <input type="text" placeholder="Paste a code" value={shareCode} onChange={(e) => setShareCode(e.target.value)} />
+                <button onClick={handleUseCode} disabled={shareCode.trim() === ''}>Use Code</button>
+            </div>
+            {message && <p className="rule-presets-message" role="status">{message}</p>}
+        </div>
+    );
+};
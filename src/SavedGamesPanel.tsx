@@ -0,0 +1,63 @@
+// src/SavedGamesPanel.tsx
+
+import { useState } from 'react';
+import type { Game } from './engine/game';
+import { AUTOSAVE_NAME, deleteSavedGame, describeSavedGame, loadSavedGames, restoreSavedGame } from './savedGames';
+import type { SavedGame } from './savedGames';
+import { playSound } from './soundManager';
+
+type SavedGamesPanelProps = {
+    onResume: (save: SavedGame, game: Game) => void;
+};
+
+/**
+ * "Continue game" for the autosaved offline game, and the players' named saves to load or delete.
+ */
+export const SavedGamesPanel = ({ onResume }: SavedGamesPanelProps) => {
+    const [saves, setSaves] = useState(loadSavedGames);
+    const [errorMessage, setErrorMessage] = useState('');
+
+    if (saves.length === 0) return null;
+    const autosave = saves.find(s => s.name === AUTOSAVE_NAME);
+    const namedSaves = saves.filter(s => s.name !== AUTOSAVE_NAME);
+
+    const handleDelete = (name: string) => {
+        playSound('click');
+        deleteSavedGame(name);
+        setSaves(loadSavedGames());
+    };
+
+    // A save that no longer loads (damaged, or from a newer version) says why and stays until deleted.
+    const handleResume = (save: SavedGame) => {
+        playSound('click');
+        let game: Game;
+        try {
+            game = restoreSavedGame(save);
+        } catch (err) {
+            setErrorMessage(`"${save.name}" cannot be loaded. ${(err as Error).message}`);
+            return;
+        }
+        onResume(save, game);
+    };
+
+    return (
+        <div className="saved-games">
+            {autosave && (
+                <div className="saved-game continue-game">
+                    <button onClick={() => handleResume(autosave)}>Continue Game</button>
+                    <span>{describeSavedGame(autosave)}</span>
+                    <button className="danger" title="Delete autosave" onClick={() => handleDelete(autosave.name)}>✕</button>
+                </div>
+            )}
+            {namedSaves.length > 0 && <h3>Saved Games</h3>}
+            {namedSaves.map(save => (
+                <div key={save.name} className="saved-game">
+                    <button onClick={() => handleResume(save)}>{save.name}</button>
+                    <span>{describeSavedGame(save)} · {new Date(save.savedAt).toLocaleString()}</span>
+                    <button className="danger" title={`Delete ${save.name}`} onClick={() => handleDelete(save.name)}>✕</button>
+                </div>
+            ))}
+            {errorMessage && <p className="error-message">{errorMessage}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,95 @@
+// src/Scorecard.tsx
+
+import type { Game } from './engine/game';
+import type { BattingStats, PlayerStats } from './engine/stats';
+
+// The size of the worm chart's drawing area, in SVG units.
+const WORM_WIDTH = 320;
+const WORM_HEIGHT = 160;
+const WORM_PADDING = 24;
+
+const StatCells = ({ stats }: { stats: BattingStats }) => (
+    <>
+        <td>{stats.runs}</td>
+        <td>{stats.balls}</td>
+        <td>{stats.fours}</td>
+        <td>{stats.sixes}</td>
+        <td>{stats.dotBalls}</td>
+        <td>{stats.extras}</td>
+        <td>{stats.strikeRate.toFixed(1)}</td>
+        <td>{stats.highestLevel}</td>
+        <td>{stats.kills}</td>
+        <td>{stats.dismissals}</td>
+    </>
+);
+
+/**
+ * A cricket-style batting card for every player: one row per token, then the totals.
+ */
+export const Scorecard = ({ gameInstance, stats }: { gameInstance: Game; stats: PlayerStats[] }) => (
+    <div className="scorecard">
+        {stats.map(playerStats => {
+            const player = gameInstance.players.find(p => p.id === playerStats.playerId)!;
+            return (
+                <table key={player.id}>
+                    <thead>
+                        <tr>
+                            <th className="name" style={{ color: `var(--${player.color.toLowerCase()})` }}>{player.name}</th>
+                            <th title="Runs">R</th>
+                            <th title="Balls faced">B</th>
+                            <th>4s</th>
+                            <th>6s</th>
+                            <th title="Dot balls">0s</th>
+                            <th title="Extras">Ext</th>
+                            <th title="Strike rate">SR</th>
+                            <th title="Highest level">Lvl</th>
+                            <th>Kills</th>
+                            <th title="Times out">Out</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {playerStats.tokens.map(tokenStats => (
+                            <tr key={tokenStats.tokenId}>
+                                <td className="name">Batter {tokenStats.tokenId}</td>
+                                <StatCells stats={tokenStats} />
+                            </tr>
+                        ))}
+                        <tr className="total">
+                            <td className="name">Total</td>
+                            <StatCells stats={playerStats} />
+                        </tr>
+                    </tbody>
+                </table>
+            );
+        })}
+    </div>
+);
+
+/**
+ * Each player's runs against the balls they faced, one line per player.
+ */
+export const WormChart = ({ gameInstance, stats }: { gameInstance: Game; stats: PlayerStats[] }) => {
+    const maxBalls = Math.max(1, ...stats.map(s => s.worm.length - 1));
+    const maxRuns = Math.max(1, ...stats.map(s => s.runs));
+    const x = (ball: number) => WORM_PADDING + (ball / maxBalls) * (WORM_WIDTH - 2 * WORM_PADDING);
+    const y = (runs: number) => WORM_HEIGHT - WORM_PADDING - (runs / maxRuns) * (WORM_HEIGHT - 2 * WORM_PADDING);
+
+    return (
+        <svg className="worm-chart" viewBox={`0 0 ${WORM_WIDTH} ${WORM_HEIGHT}`} role="img" aria-label="Runs per ball for each player">
+            <line className="axis" x1={x(0)} y1={y(0)} x2={x(maxBalls)} y2={y(0)} />
+            <line className="axis" x1={x(0)} y1={y(0)} x2={x(0)} y2={y(maxRuns)} />
+            <text x={x(maxBalls)} y={WORM_HEIGHT - 6} textAnchor="end">{maxBalls} balls</text>
+            <text x={x(0)} y={y(maxRuns) - 8}>{maxRuns} runs</text>
+            {stats.map(playerStats => {
+                const player = gameInstance.players.find(p => p.id === playerStats.playerId)!;
+                return (
+                    <polyline
+                        key={player.id}
+                        points={playerStats.worm.map((runs, ball) => `${x(ball)},${y(runs)}`).join(' ')}
+                        style={{ stroke: `var(--${player.color.toLowerCase()})` }}
+                    />
+                );
+            })}
+        </svg>
+    );
+};
@@ -1,18 +1,21 @@
 // src/SettingsContext.tsx
-import React, { createContext, useState, useContext } from 'react';
+import React, { createContext, useState, useContext, useEffect } from 'react';
 import type { ReactNode } from 'react';
+import type { GameSettings } from './engine/types';
+import { loadSettings, saveSettings } from './settingsStorage';
 
-// Define the shape of our settings
-export interface GameSettings {
-    allowAntiClockwise: boolean;
-    killRule: 'jackpot' | 'fortress';
-    stealLevelOnKill: true,
+// How many moves an offline player may take back: none, just the last one, or any number (casual play)
+export type TakebackPolicy = 'off' | 'lastMove' | 'unlimited';
+
+// The engine's rules plus the settings only the app uses
+export interface AppSettings extends GameSettings {
+    takebackPolicy: TakebackPolicy;
 }
 
 // Define the shape of the context value
 interface SettingsContextType {
-  settings: GameSettings;
-  setSettings: React.Dispatch<React.SetStateAction<GameSettings>>;
+  settings: AppSettings;
+  setSettings: React.Dispatch<React.SetStateAction<AppSettings>>;
 }
 
 // Create the context with a default value
@@ -20,11 +23,12 @@ const SettingsContext = createContext<SettingsContextType | undefined>(undefined
 
 // Create a provider component
 export const SettingsProvider = ({ children }: { children: ReactNode }) => {
-  const [settings, setSettings] = useState<GameSettings>({
-    allowAntiClockwise: false, // Default to disabled as per our last change
-    killRule: 'jackpot',     // Default to the more aggressive rule
-    stealLevelOnKill: true,
-  });
+  // Settings are kept in local storage, so they survive a reload.
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
 
   return (
     <SettingsContext.Provider value={{ settings, setSettings }}>
@@ -40,4 +44,4 @@ export const useSettings = () => {
     throw new Error('useSettings must be used within a SettingsProvider');
   }
   return context;
-};
\ No newline at end of file
+};
@@ -0,0 +1,207 @@
+// src/WaitingRoomScreen.tsx
+
+import { useState, useEffect, useMemo } from 'react';
+import { supabase, getFunctionErrorMessage } from './supabaseClient';
+import { useAuth } from './AuthContext';
+import { playSound } from './soundManager';
+import { Game } from './engine/game';
+import { encodeRules, parseRules } from './rulePresets';
+
+// A player as the `players` column of the games table stores them
+type WaitingPlayer = {
+    userId: string;
+    id: number;
+    color: string;
+    ready?: boolean;
+};
+
+type WaitingGame = {
+    game_code: string;
+    host_id: string;
+    players: WaitingPlayer[];
+    status: string;
+    // The host's setup: mode, rules and seats. Seats an AI fills in if nobody joins are `isAI`.
+    game_state: unknown;
+};
+
+type WaitingRoomScreenProps = {
+    gameId: string;
+    onGameStart: (gameId: string) => void;
+    onLeave: () => void;
+};
+
+/**
+ * Where an online game's players gather before it starts. Shows the code to share and who has
+ * joined, lets players say they are ready, and lets the host start the game.
+ */
+export const WaitingRoomScreen = ({ gameId, onGameStart, onLeave }: WaitingRoomScreenProps) => {
+    const { user } = useAuth();
+    const [waitingGame, setWaitingGame] = useState<WaitingGame | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [busy, setBusy] = useState(false);
+    const [errorMessage, setErrorMessage] = useState('');
+    const [copyMessage, setCopyMessage] = useState('');
+
+    // Fetch the game, then follow joins, ready changes and the start as they happen.
+    useEffect(() => {
+        let cancelled = false;
+
+        const fetchGame = async () => {
+            const { data, error } = await supabase
+                .from('games')
+                .select('game_code, host_id, players, status, game_state')
+                .eq('id', gameId)
+                .single();
+
+            if (cancelled) return;
+            if (error || !data) {
+                console.error('Could not fetch game', error);
+                setErrorMessage('The game could not be found.');
+            } else {
+                setWaitingGame(data as WaitingGame);
+            }
+            setLoading(false);
+        };
+
+        const channel = supabase
+            .channel(`waiting-room:${gameId}`)
+            .on('postgres_changes',
+                { event: 'UPDATE', schema: 'public', table: 'games', filter: `id=eq.${gameId}` },
+                (payload) => {
+                    const { game_code, host_id, players, status, game_state } = payload.new as WaitingGame;
+                    setWaitingGame({ game_code, host_id, players, status, game_state });
+                }
+            )
+            .subscribe();
+
+        fetchGame();
+
+        return () => {
+            cancelled = true;
+            supabase.removeChannel(channel);
+        };
+    }, [gameId]);
+
+    // Everyone moves on to the game as soon as the host starts it.
+    const hasStarted = waitingGame !== null && waitingGame.status !== 'waiting';
+    useEffect(() => {
+        if (hasStarted) onGameStart(gameId);
+    }, [hasStarted, gameId, onGameStart]);
+
+    // A damaged setup still lets the room show who has joined.
+    const setup = useMemo(() => {
+        try {
+            return waitingGame ? Game.fromJSON(waitingGame.game_state) : null;
+        } catch (err) {
+            console.error('Could not load game setup', err);
+            return null;
+        }
+    }, [waitingGame]);
+
+    if (loading) {
+        return <div className="screen waiting-room"><h2>Loading...</h2></div>;
+    }
+
+    if (!waitingGame) {
+        return (
+            <div className="screen waiting-room">
+                <h2>Could not open the waiting room</h2>
+                <p className="error-message">{errorMessage}</p>
+                <button onClick={onLeave}>Back to Lobby</button>
+            </div>
+        );
+    }
+
+    const isHost = waitingGame.host_id === user?.id;
+    const self = waitingGame.players.find(p => p.userId === user?.id);
+    // The host is ready by pressing Start, so only the others need to say so.
+    const others = waitingGame.players.filter(p => p.userId !== waitingGame.host_id);
+    const seats = setup
+        ? setup.players.map(({ color, isAI }) => ({ seat: { color, isAI }, player: waitingGame.players.find(p => p.color === color) }))
+        : waitingGame.players.map(player => ({ seat: { color: player.color, isAI: false }, player }));
+    const playerCount = waitingGame.players.length + seats.filter(({ seat, player }) => !player && seat.isAI).length;
+    const canStart = isHost && playerCount >= 2 && others.every(p => p.ready);
+
+    const handleToggleReady = async () => {
+        if (!self) return;
+        playSound('click');
+        setBusy(true);
+        setErrorMessage('');
+        const { error } = await supabase.functions.invoke('set-ready', {
+            body: { gameId, ready: !self.ready }
+        });
+        if (error) setErrorMessage(await getFunctionErrorMessage(error));
+        setBusy(false);
+    };
+
+    const handleStart = async () => {
+        playSound('click');
+        setBusy(true);
+        setErrorMessage('');
+        const { error } = await supabase.functions.invoke('start-game', { body: { gameId } });
+        // On success the status update arrives through realtime and moves everyone on.
+        if (error) setErrorMessage(await getFunctionErrorMessage(error));
+        setBusy(false);
+    };
+
+    const handleCopyCode = async () => {
+        playSound('click');
+        try {
+            await navigator.clipboard.writeText(waitingGame.game_code);
+            setCopyMessage('Copied!');
+        } catch {
+            setCopyMessage('Could not copy. Share the code by hand.');
+        }
+    };
+
+    return (
+        <div className="screen waiting-room">
+            <h2>Waiting Room</h2>
+            <div className="waiting-room-code">
+                <span>Game code: <strong>{waitingGame.game_code}</strong></span>
+                <button onClick={handleCopyCode}>Copy</button>
+                {copyMessage && <span className="save-status" role="status">{copyMessage}</span>}
+            </div>
+
+            {setup && (
+                <p className="waiting-room-setup">
+                    {setup.getGameMode()} · {setup.players.length} seats · rules {encodeRules(parseRules(setup.getSettings()))}
+                </p>
+            )}
+
+            <ul className="waiting-players">
+                {seats.map(({ seat, player }) => (
+                    <li key={seat.color} className="waiting-player">
+                        <span className={`waiting-player-color ${seat.color.toLowerCase()}`} />
+                        <span className="waiting-player-name">
+                            {seat.color}{player && player.userId === user?.id ? ' (you)' : ''}
+                        </span>
+                        <span className={`waiting-player-status${player && (player.userId === waitingGame.host_id || player.ready) ? ' ready' : ''}`}>
+                            {!player ? (seat.isAI ? `Open · AI (${setup?.aiDifficulty}) if empty` : 'Open')
+                                : player.userId === waitingGame.host_id ? 'Host' : player.ready ? 'Ready' : 'Not ready'}
+                        </span>
+                    </li>
+                ))}
+            </ul>
+
+            <div className="waiting-room-actions">
+                {isHost ? (
+                    <button onClick={handleStart} disabled={!canStart || busy}>
+                        {busy ? 'Starting...' : 'Start Game'}
+                    </button>
+                ) : self && (
+                    <button onClick={handleToggleReady} disabled={busy} className={self.ready ? 'active' : ''}>
+                        {self.ready ? 'Not Ready' : 'Ready'}
+                    </button>
+                )}
+                <button onClick={onLeave}>Back to Lobby</button>
+            </div>
+            {isHost && !canStart && (
+                <p className="waiting-room-hint">
+                    {playerCount < 2 ? 'Waiting for players to join...' : 'Waiting for everyone to be ready...'}
+                </p>
+            )}
+            {errorMessage && <p className="error-message">{errorMessage}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,66 @@
+// src/aiPlayer.tsx
+
+import type { Game } from './engine/game';
+import type { SearchBudget } from './engine/search';
+import { AIDifficulty } from './engine/types';
+import type { DiceResult, IPlayer } from './engine/types';
+import type { AIWorkerRequest, AIWorkerResponse } from './aiWorker';
+
+// The Expert AI thinks for at most this long, which fits inside the AI's usual pause before moving.
+const EXPERT_BUDGET: SearchBudget = { maxIterations: 5000, timeLimitMs: 700 };
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+// Each waiting move is settled with the token the search chose, or null if the search failed.
+const pendingRequests = new Map<number, (tokenId: number | null) => void>();
+
+const settle = (requestId: number, tokenId: number | null) => {
+  pendingRequests.get(requestId)?.(tokenId);
+  pendingRequests.delete(requestId);
+};
+
+// A worker that crashed cannot say which search it was running, so every waiting move is settled
+// without one, and the next search starts a new worker.
+const handleWorkerFailure = (event: Event) => {
+  console.error('[AI] The search worker failed', event);
+  worker?.terminate();
+  worker = null;
+  [...pendingRequests.keys()].forEach(requestId => settle(requestId, null));
+};
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./aiWorker.tsx', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<AIWorkerResponse>) => {
+      const { requestId, tokenId, error } = event.data;
+      if (error) console.error(`[AI] The search failed: ${error}`);
+      settle(requestId, tokenId);
+    };
+    worker.onerror = handleWorkerFailure;
+    worker.onmessageerror = handleWorkerFailure;
+  }
+  return worker;
+};
+
+/**
+ * Decides which token an AI player moves. Expert searches in a Web Worker; the other
+ * difficulties are quick enough to answer on the main thread. If the search fails,
+ * the move is made at Hard instead, so the game never waits on it.
+ */
+export const decideAIMove = (game: Game, player: IPlayer, diceResult: DiceResult): Promise<number> => {
+  console.log(`[AI] ${player.name} is thinking...`);
+  if (game.aiDifficulty !== AIDifficulty.Expert || typeof Worker === 'undefined') {
+    return Promise.resolve(game.makeAIDecision(diceResult));
+  }
+
+  return new Promise(resolve => {
+    const request: AIWorkerRequest = { requestId: nextRequestId++, state: game.toJSON(), diceResult, budget: EXPERT_BUDGET };
+    pendingRequests.set(request.requestId, tokenId => resolve(tokenId ?? game.makeAIDecision(diceResult, AIDifficulty.Hard)));
+    try {
+      getWorker().postMessage(request);
+    } catch (err) {
+      console.error('[AI] Could not start the search', err);
+      settle(request.requestId, null);
+    }
+  });
+};
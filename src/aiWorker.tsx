@@ -0,0 +1,33 @@
+// src/aiWorker.tsx
+// Runs the Expert AI's search off the main thread, so board animations keep running while it thinks.
+
+import { Game } from './engine/game';
+import type { GameSnapshot } from './engine/game';
+import { chooseTokenByRollouts } from './engine/search';
+import type { SearchBudget } from './engine/search';
+import type { DiceResult } from './engine/types';
+
+export type AIWorkerRequest = {
+  requestId: number;
+  state: GameSnapshot;
+  diceResult: DiceResult;
+  budget: SearchBudget;
+};
+
+// `tokenId` is null if the search failed, with the reason in `error`.
+export type AIWorkerResponse = {
+  requestId: number;
+  tokenId: number | null;
+  error?: string;
+};
+
+self.onmessage = (event: MessageEvent<AIWorkerRequest>) => {
+  const { requestId, state, diceResult, budget } = event.data;
+  let response: AIWorkerResponse;
+  try {
+    response = { requestId, tokenId: chooseTokenByRollouts(Game.fromJSON(state), diceResult, budget) };
+  } catch (err) {
+    response = { requestId, tokenId: null, error: (err as Error).message };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,16 @@
+// src/animation.tsx
+
+import type { PlayerColor } from './engine/types';
+
+// Type for the animation state
+export type AnimatingToken = {
+  playerColor: PlayerColor;
+  tokenId: number;
+  path: number[];
+  currentStep: number;
+  phase: AnimationPhase;
+  startPosition: number;
+  level: number;
+};
+
+export type AnimationPhase = 'lifting' | 'moving' | 'landing';
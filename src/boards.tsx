@@ -0,0 +1,78 @@
+// src/boards.tsx
+
+import type { CSSProperties } from 'react';
+import { boardLayout, validateBoard } from './engine/boardLayout';
+import type { BoardSquare } from './engine/types';
+import { createNamedStorage } from './namedStorage';
+import { downloadFile } from './download';
+
+// The built-in board. The board editor can copy it, but not change it.
+export const STANDARD_BOARD_NAME = 'Standard';
+
+// A board layout the players made in the board editor.
+export type SavedBoard = {
+    name: string;
+    squares: BoardSquare[];
+};
+
+// A stored board is only kept if it can be played on.
+const parseSavedBoard = (stored: unknown): SavedBoard | null => {
+    const board = stored as Partial<SavedBoard> | null;
+    return typeof board?.name === 'string' && Array.isArray(board.squares) && validateBoard(board.squares).length === 0
+        ? { name: board.name, squares: board.squares }
+        : null;
+};
+
+const boardStorage = createNamedStorage('cricket-board-game.boards', parseSavedBoard);
+
+export const loadSavedBoards = boardStorage.load;
+export const saveBoard = boardStorage.save;
+export const deleteSavedBoard = boardStorage.delete;
+
+/**
+ * The squares of the board with the given name, falling back to the standard board.
+ */
+export const getBoardSquares = (name: string): readonly BoardSquare[] => {
+    return loadSavedBoards().find(b => b.name === name)?.squares ?? boardLayout;
+};
+
+/**
+ * Reads a board exported with `exportBoard`. A bare array of squares is accepted too.
+ * Throws an Error describing what is wrong if the file is not a valid board.
+ */
+export const parseBoardJSON = (text: string, fallbackName: string): SavedBoard => {
+    let data;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+
+    const board: SavedBoard = Array.isArray(data)
+        ? { name: fallbackName, squares: data }
+        : { name: typeof data?.name === 'string' ? data.name : fallbackName, squares: data?.squares };
+    if (!Array.isArray(board.squares)) {
+        throw new Error('The file does not contain a list of squares.');
+    }
+
+    const problems = validateBoard(board.squares);
+    if (problems.length > 0) {
+        throw new Error(problems.join(' '));
+    }
+    return board;
+};
+
+/**
+ * Downloads a board as a JSON file that `parseBoardJSON` can read back.
+ */
+export const exportBoard = (board: SavedBoard) => {
+    downloadFile(`${board.name.replace(/[^\w-]+/g, '-')}.board.json`, JSON.stringify(board, null, 2), 'application/json');
+};
+
+/**
+ * Sizes the `.board` grid so it just holds every square of the board.
+ */
+export const getBoardGridStyle = (board: readonly BoardSquare[]): CSSProperties => ({
+    '--board-rows': Math.max(...board.map(square => square.coords.row)) + 1,
+    '--board-cols': Math.max(...board.map(square => square.coords.col)) + 1,
+} as CSSProperties);
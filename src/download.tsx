@@ -0,0 +1,14 @@
+// src/download.tsx
+
+/**
+ * Downloads text as a file with the given name.
+ */
+export const downloadFile = (fileName: string, contents: string, mimeType: string) => {
+    const blob = new Blob([contents], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
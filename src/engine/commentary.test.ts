@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { buildCommentary } from './commentary.ts';
+import { Game } from './game.ts';
+import { GameMode, PlayerColor } from './types.ts';
+import { createTestGame, playToEnd } from './test/helpers.ts';
+
+describe('buildCommentary', () => {
+    it('tells the same story every time a game without its seed is loaded', () => {
+        const game = createTestGame(GameMode.T20, [PlayerColor.Blue, PlayerColor.Green], {}, 9);
+        playToEnd(game);
+        // Online games store their state without the dice generator, so each load gets a new seed.
+        const stored = JSON.parse(JSON.stringify(game.toJSON()));
+        delete stored.random;
+
+        const feeds = Array.from({ length: 5 }, () => buildCommentary(Game.fromJSON(stored)).map(line => line.text));
+        feeds.forEach(feed => expect(feed).toEqual(buildCommentary(game).map(line => line.text)));
+    });
+});
@@ -0,0 +1,239 @@
+import { getMatchStats } from './stats.ts';
+import type { Game } from './game.ts';
+import type { BattingStats, TokenStats } from './stats.ts';
+import type { Direction, GameMode, GameResult, GameSettings, InningsScore, IPlayer, MatchFormat, PlayerColor, ResultMargin, SquareType } from './types.ts';
+
+/**
+ * Bumped whenever a field of `MatchExport` changes meaning or goes away. New fields may be
+ * added without a bump, so readers should ignore fields they do not know.
+ */
+export const MATCH_EXPORT_VERSION = 1;
+
+/**
+ * A finished (or abandoned) match as JSON: who played, the result, everyone's batting card
+ * and every ball. Built only from the game state and its move history.
+ */
+export interface MatchExport {
+    version: number; // MATCH_EXPORT_VERSION when written
+    gameMode: GameMode;
+    seed: number | null; // Replays the match with the same moves. Null for online games, whose seed is not kept
+    format: MatchFormat;
+    settings: GameSettings;
+    isGameOver: boolean; // False when exported before the end
+    result: ExportedResult | null; // Null until the game is over
+    players: ExportedPlayer[]; // In seat order
+    balls: ExportedBall[]; // Every move in the order played, fielding and Super Over moves included
+}
+
+export interface ExportedResult {
+    decidedBy: GameResult['decidedBy'];
+    winnerIds: number[];
+    margin: ResultMargin | null;
+    summary: string; // For example "Player 1 (Blue) wins by 12 runs"
+}
+
+export interface ExportedPlayer {
+    id: number;
+    name: string;
+    color: PlayerColor;
+    isAI: boolean;
+    runs: number; // The final score, all innings together
+    wickets: number; // Wickets lost in the innings being played at the end
+    innings: Omit<InningsScore, 'playerId' | 'endedAfterMove'>[]; // Finished Test match innings; empty in other modes
+    superOvers: { runs: number; wickets: number }[]; // One per Super Over the player took part in
+    batting: BattingStats; // Super Overs left out
+    tokens: TokenStats[];
+}
+
+export interface ExportedBall {
+    ball: number; // 1 for the first move
+    playerId: number;
+    tokenId: number;
+    fielding: boolean; // A fielder's move in a sequential innings, which is not a ball faced
+    superOver: boolean;
+    movement: number;
+    direction: Direction;
+    from: number; // Square indexes, in the board's clockwise order
+    to: number; // Where the token landed, even if it was then sent home
+    square: SquareType; // The type of the square landed on
+    squareValue: number; // Its runs, for Runs squares
+    runs: number; // Kill bonuses and powerplay doubling included
+    wickets: number; // Wickets the mover lost
+    kills: { playerId: number; tokenId: number }[];
+    level: number; // The moving token's level after the move
+    levelUp: boolean;
+    extraTurn: boolean;
+}
+
+// "405-10", or "266-7d" for a declared innings
+export const formatInnings = (innings: Pick<InningsScore, 'runs' | 'wickets' | 'declared'>) =>
+    `${innings.runs}-${innings.wickets}${innings.declared ? 'd' : ''}`;
+
+// A Test match player's innings joined with "&", counting one they were still batting in
+export const formatScorecard = (player: IPlayer, innings: InningsScore[]) => {
+    if (innings.length === 0) return `${player.score} - ${player.wickets}`;
+    const runsSoFar = innings.reduce((total, i) => total + i.runs, 0);
+    const isBatting = innings.length === 1 && !player.isAllOut && (player.score > runsSoFar || player.wickets > 0);
+    const lines = innings.map(formatInnings);
+    if (isBatting) lines.push(`${player.score - runsSoFar}-${player.wickets}`);
+    return lines.join(' & ');
+};
+
+export const describeMargin = (margin: GameResult['margin']) => {
+    switch (margin?.by) {
+        case 'innings': return `wins by an innings and ${margin.runs} run${margin.runs === 1 ? '' : 's'}`;
+        case 'runs': return `wins by ${margin.runs} run${margin.runs === 1 ? '' : 's'}`;
+        case 'wickets': return `wins by ${margin.wickets} wicket${margin.wickets === 1 ? '' : 's'}`;
+        default: return 'wins the game';
+    }
+};
+
+/**
+ * The result in one sentence, without the trimmings of the end screen.
+ */
+export const describeResult = (game: Game): string => {
+    const result = game.getResult();
+    const winners = result.winnerIds.map(id => game.players.find(p => p.id === id)!.name);
+    switch (result.decidedBy) {
+        case 'draw': return 'The match is drawn';
+        case 'tie': return `It's a tie! ${winners.join(' and ')} share the win`;
+        case 'superOver': return `${winners[0]} wins the Super Over`;
+        default: return `${winners[0]} ${describeMargin(result.margin)}`;
+    }
+};
+
+// Just the batting numbers, without the worm or ids of `PlayerStats`.
+const battingOf = ({ balls, runs, fours, sixes, dotBalls, extras, strikeRate, highestLevel, kills, timesKilled, dismissals }: BattingStats): BattingStats =>
+    ({ balls, runs, fours, sixes, dotBalls, extras, strikeRate, highestLevel, kills, timesKilled, dismissals });
+
+/**
+ * Builds the JSON export of a match. See `MatchExport` for the schema.
+ */
+export const exportMatchJSON = (game: Game): MatchExport => {
+    const stats = getMatchStats(game);
+    const result = game.isGameOver ? game.getResult() : null;
+
+    return {
+        version: MATCH_EXPORT_VERSION,
+        gameMode: game.getGameMode(),
+        seed: game.seed,
+        format: { ...game.getFormat() },
+        settings: { ...game.getSettings() },
+        isGameOver: game.isGameOver,
+        result: result && {
+            decidedBy: result.decidedBy,
+            winnerIds: result.winnerIds,
+            margin: result.margin ?? null,
+            summary: describeResult(game),
+        },
+        players: game.players.map(player => {
+            const playerStats = stats.find(s => s.playerId === player.id)!;
+            return {
+                id: player.id,
+                name: player.name,
+                color: player.color,
+                isAI: player.isAI,
+                runs: player.score,
+                wickets: player.wickets,
+                innings: game.innings
+                    .filter(i => i.playerId === player.id)
+                    .map(({ runs, wickets, declared, followOn }) => ({ runs, wickets, declared, followOn })),
+                superOvers: game.superOvers.flatMap(round => round
+                    .filter(score => score.playerId === player.id)
+                    .map(({ runs, wickets }) => ({ runs, wickets }))),
+                batting: battingOf(playerStats),
+                tokens: playerStats.tokens,
+            };
+        }),
+        balls: game.history.map((move, index) => {
+            const square = game.board[move.to];
+            return {
+                ball: index + 1,
+                playerId: move.playerId,
+                tokenId: move.tokenId,
+                fielding: !!move.fielding,
+                superOver: !!move.superOver,
+                movement: move.diceResult.movement,
+                direction: move.diceResult.direction,
+                from: move.from,
+                to: move.to,
+                square: square.type,
+                squareValue: square.value,
+                runs: move.runs,
+                wickets: move.wickets,
+                kills: move.kills,
+                level: move.level,
+                levelUp: move.levelUp,
+                extraTurn: move.extraTurn,
+            };
+        }),
+    };
+};
+
+const CSV_COLUMNS = [
+    'ball', 'player_id', 'player', 'token', 'fielding', 'super_over', 'movement', 'direction', 'from', 'to',
+    'square', 'square_value', 'runs', 'wickets', 'kills', 'level', 'level_up', 'extra_turn',
+];
+
+// Quotes a CSV field when it holds a comma, quote or line break.
+const csvField = (value: string | number | boolean) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One CSV row per ball, with a header row. Kills are written as "Color:token" pairs
+ * separated by semicolons.
+ */
+export const exportBallsCSV = (game: Game): string => {
+    const colorOf = (playerId: number) => game.players.find(p => p.id === playerId)!.color;
+    const rows = exportMatchJSON(game).balls.map(ball => [
+        ball.ball, ball.playerId, colorOf(ball.playerId), ball.tokenId, ball.fielding, ball.superOver,
+        ball.movement, ball.direction, ball.from, ball.to, ball.square, ball.squareValue, ball.runs,
+        ball.wickets, ball.kills.map(kill => `${colorOf(kill.playerId)}:${kill.tokenId}`).join(';'),
+        ball.level, ball.levelUp, ball.extraTurn,
+    ]);
+    return [CSV_COLUMNS, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+};
+
+const TEXT_COLUMNS: [string, keyof BattingStats][] = [
+    ['R', 'runs'], ['B', 'balls'], ['4s', 'fours'], ['6s', 'sixes'], ['0s', 'dotBalls'],
+    ['Ext', 'extras'], ['SR', 'strikeRate'], ['Lvl', 'highestLevel'], ['Kills', 'kills'], ['Out', 'dismissals'],
+];
+const TEXT_NAME_WIDTH = 20;
+const TEXT_COLUMN_WIDTH = 7;
+
+const textRow = (name: string, cells: string[]) =>
+    name.padEnd(TEXT_NAME_WIDTH) + cells.map(cell => cell.padStart(TEXT_COLUMN_WIDTH)).join('');
+
+const textStats = (stats: BattingStats) =>
+    TEXT_COLUMNS.map(([, key]) => key === 'strikeRate' ? stats.strikeRate.toFixed(1) : String(stats[key]));
+
+/**
+ * A plain-text, cricket-style scorecard for pasting into a chat: the result, each player's
+ * batting card and total, any Super Overs, and the seed if it is known.
+ */
+export const exportScorecardText = (game: Game): string => {
+    const stats = getMatchStats(game);
+    const lines = [
+        `${game.getGameMode()} match: ${game.players.map(p => p.name).join(' v ')}`,
+        game.isGameOver ? `${describeResult(game)}.` : 'Match in progress.',
+    ];
+
+    game.players.forEach(player => {
+        const playerStats = stats.find(s => s.playerId === player.id)!;
+        const innings = game.innings.filter(i => i.playerId === player.id);
+        lines.push('', textRow(player.name, TEXT_COLUMNS.map(([label]) => label)));
+        playerStats.tokens.forEach(tokenStats => lines.push(textRow(`  Batter ${tokenStats.tokenId}`, textStats(tokenStats))));
+        lines.push(textRow('  Total', textStats(playerStats)));
+        lines.push(`  Score: ${formatScorecard(player, innings)}`);
+    });
+
+    game.superOvers.forEach((round, index) => {
+        const scores = round.map(score => `${game.players.find(p => p.id === score.playerId)!.name} ${score.runs}-${score.wickets}`);
+        lines.push('', `Super Over${game.superOvers.length > 1 ? ` ${index + 1}` : ''}: ${scores.join(', ')}`);
+    });
+
+    if (game.seed !== null) lines.push('', `Game seed: ${game.seed}`);
+    return lines.join('\n') + '\n';
+};
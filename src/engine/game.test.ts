@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { Game } from './game.ts';
+import { AIDifficulty, Direction, GameMode, MAX_TOKENS_PER_PLAYER, PlayerColor } from './types.ts';
+import type { KillBonus } from './types.ts';
+import { createTestGame, playToEnd } from './test/helpers.ts';
+
+describe('Test match clock', () => {
+    it('bowls every ball of the match, and no more, before a draw', () => {
+        const game = createTestGame(GameMode.Test, [PlayerColor.Blue, PlayerColor.Green], { inningsMode: 'sequential', fieldersCanKill: false });
+        playToEnd(game);
+
+        const { ballsPerDay, days } = game.getFormat().testMatch!;
+        const ballsBowled = game.history.filter(move => !move.extraTurn && !move.fielding).length;
+        expect(game.getResult().decidedBy).toBe('draw');
+        expect(ballsBowled).toBe(ballsPerDay * game.players.length * days);
+        expect(game.getTestMatchClock()).toEqual({ day: days, ballsLeftToday: 0, ballsLeftInMatch: 0 });
+    });
+});
+
+describe('kill bonuses', () => {
+    // Blue's level 1 token lands three squares on, on a Runs square where Yellow's level 3 token stands.
+    const killLevel3Token = (killBonus: KillBonus, stealLevelOnKill: boolean) => {
+        const game = createTestGame(GameMode.T20, [PlayerColor.Blue, PlayerColor.Yellow], { killBonus, stealLevelOnKill, tokensPerPlayer: 1 });
+        const [attacker, victim] = game.players;
+        const attackerToken = attacker.tokens[0];
+        victim.tokens[0].positionIndex = (attackerToken.positionIndex + 3) % game.board.length;
+        victim.tokens[0].level = 3;
+
+        const events = game.playTurn(attackerToken.id, { movement: 3, direction: Direction.Clockwise });
+        expect(events.some(event => event.type === 'kill')).toBe(true);
+        return attackerToken.level;
+    };
+
+    it('hands the victim\'s level over once under Steal Level', () => {
+        expect(killLevel3Token('stealLevel', true)).toBe(4);
+        expect(killLevel3Token('stealLevel', false)).toBe(4);
+    });
+
+    it('lets the attacker take a higher level under Steal Level on Kill', () => {
+        expect(killLevel3Token('none', true)).toBe(3);
+        expect(killLevel3Token('none', false)).toBe(1);
+    });
+});
+
+describe('tokens per player', () => {
+    const ONE_STEP = { movement: 1, direction: Direction.Clockwise };
+
+    it.each([1, 2, 3, 4])('gives every player %i tokens at home', tokensPerPlayer => {
+        const game = createTestGame(GameMode.T20, [PlayerColor.Blue, PlayerColor.Yellow, PlayerColor.Green], { tokensPerPlayer });
+        game.players.forEach(player => {
+            expect(player.tokens.map(t => t.id)).toEqual(Array.from({ length: tokensPerPlayer }, (_, i) => i + 1));
+            expect(player.tokens.every(t => t.positionIndex === player.homeBaseIndex && t.level === 1)).toBe(true);
+        });
+    });
+
+    it('keeps the number of tokens within the supported range', () => {
+        const tokenCount = (tokensPerPlayer: number) => createTestGame(GameMode.T20, [PlayerColor.Blue, PlayerColor.Yellow], { tokensPerPlayer }).players[0].tokens.length;
+        expect(tokenCount(0)).toBe(1);
+        expect(tokenCount(MAX_TOKENS_PER_PLAYER + 5)).toBe(MAX_TOKENS_PER_PLAYER);
+    });
+
+    it.each([
+        [3, 2, true],
+        [3, 1, false],
+        [4, 3, true],
+    ])('with %i tokens each, a fortress of %i on a square is safe: %s', (tokensPerPlayer, tokensOnSquare, safe) => {
+        const game = createTestGame(GameMode.T20, [PlayerColor.Blue, PlayerColor.Yellow], { killRule: 'fortress', tokensPerPlayer });
+        const [attacker, victim] = game.players;
+        attacker.tokens[0].positionIndex = 4;
+        victim.tokens.slice(0, tokensOnSquare).forEach(token => { token.positionIndex = 5; });
+
+        const events = game.playTurn(attacker.tokens[0].id, ONE_STEP);
+        expect(events.some(event => event.type === 'kill')).toBe(!safe);
+        expect(victim.tokens.filter(t => t.positionIndex === 5)).toHaveLength(safe ? tokensOnSquare : 0);
+    });
+
+    it('saves and loads every token', () => {
+        const game = createTestGame(GameMode.T20, [PlayerColor.Blue, PlayerColor.Yellow, PlayerColor.Green], { tokensPerPlayer: 4 }, 7);
+        for (let move = 0; move < 30 && !game.isGameOver; move++) {
+            const diceResult = game.rollDice();
+            game.playTurn(game.makeAIDecision(diceResult), diceResult);
+        }
+
+        const state = JSON.parse(JSON.stringify(game.toJSON()));
+        const loaded = Game.fromJSON(state);
+        expect(loaded.players.map(p => p.tokens.length)).toEqual([4, 4, 4]);
+        expect(loaded.toJSON()).toEqual(state);
+    });
+
+    it('lets the AI pick whichever of its tokens moves best', () => {
+        // Only Blue's third token lands on Yellow's level 3 token, on a 4. The others land on a 1, a wicket and a 2.
+        const game = createTestGame(GameMode.T20, [PlayerColor.Blue, PlayerColor.Yellow], { tokensPerPlayer: 4 });
+        const [attacker, victim] = game.players;
+        [0, 1, 4, 6].forEach((position, i) => { attacker.tokens[i].positionIndex = position; });
+        victim.tokens[0].positionIndex = 5;
+        victim.tokens[0].level = 3;
+
+        expect(game.makeAIDecision(ONE_STEP, AIDifficulty.Hard)).toBe(attacker.tokens[2].id);
+        expect(game.makeAIDecision(ONE_STEP, AIDifficulty.Medium)).toBe(attacker.tokens[2].id);
+    });
+});
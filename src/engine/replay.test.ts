@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import type { Game } from './game.ts';
+import { buildReplayFrames } from './replay.ts';
+import { GameMode, PlayerColor } from './types.ts';
+import { createTestGame, playToEnd } from './test/helpers.ts';
+
+// Everything a replay shows: the scores, the tokens, the innings and how the game ended.
+const finalPosition = (game: Game) => ({
+    players: game.toJSON().players,
+    innings: game.innings,
+    isGameOver: game.isGameOver,
+    result: game.getResult(),
+});
+
+describe('buildReplayFrames', () => {
+    it('ends on the position the game ended on', () => {
+        const game = createTestGame(GameMode.T20, [PlayerColor.Blue, PlayerColor.Green], {}, 3);
+        playToEnd(game);
+
+        const frames = buildReplayFrames(game);
+        expect(frames).toHaveLength(game.history.length + 1);
+        expect(finalPosition(frames.at(-1)!.game)).toEqual(finalPosition(game));
+    });
+
+    it('replays a declaration made after the last move', () => {
+        // Every batter declares once they have faced 20 balls, so their second innings is declared
+        // before its first ball and the match ends on a declaration.
+        const game = createTestGame(GameMode.Test, [PlayerColor.Blue, PlayerColor.Green], { inningsMode: 'sequential', fieldersCanKill: false });
+        playToEnd(game, g => g.canDeclare() && g.history.filter(move => move.playerId === g.getCurrentPlayer().id && !move.fielding).length >= 20);
+        const lastInnings = game.innings.at(-1)!;
+        expect(lastInnings.declared && lastInnings.endedAfterMove === game.history.length).toBe(true);
+
+        const frames = buildReplayFrames(game);
+        expect(frames).toHaveLength(game.history.length + 2);
+        expect(frames.at(-1)!.move).toBeNull();
+        expect(finalPosition(frames.at(-1)!.game)).toEqual(finalPosition(game));
+    });
+});
@@ -0,0 +1,44 @@
+import { Game } from './game.ts';
+import type { MoveRecord } from './types.ts';
+
+/**
+ * The state of a game at one point of a replay, and the move that led there.
+ */
+export interface ReplayFrame {
+    game: Game;
+    move: MoveRecord | null; // null for the starting position, and for a declaration after the last move
+}
+
+/**
+ * Replays a game's move history from the start, returning one frame for the starting
+ * position, one after every recorded move, and one more if the game ended on a declaration.
+ */
+export const buildReplayFrames = (game: Game): ReplayFrame[] => {
+    const replay = game.createStartingCopy();
+    const frames: ReplayFrame[] = [{ game: Game.fromJSON(replay.toJSON()), move: null }];
+
+    // Declarations are not moves, so they are made again where the innings they closed ended.
+    // Returns how many were made.
+    const declareDueInnings = (movesPlayed: number): number => {
+        const due = game.innings.filter(innings => innings.declared && innings.endedAfterMove === movesPlayed);
+        due.forEach(innings => {
+            replay.currentPlayerIndex = replay.players.findIndex(p => p.id === innings.playerId);
+            replay.declareInnings();
+        });
+        return due.length;
+    };
+
+    game.history.forEach((move, index) => {
+        declareDueInnings(index);
+        // Turns skipped by all out players are not recorded, so we jump straight to the mover.
+        replay.currentPlayerIndex = replay.players.findIndex(p => p.id === move.playerId);
+        replay.playTurn(move.tokenId, move.diceResult);
+        frames.push({ game: Game.fromJSON(replay.toJSON()), move });
+    });
+    // A declaration after the last move can end the match, so it gets a frame of its own.
+    if (declareDueInnings(game.history.length) > 0) {
+        frames.push({ game: Game.fromJSON(replay.toJSON()), move: null });
+    }
+
+    return frames;
+};
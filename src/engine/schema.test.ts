@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { Game } from './game.ts';
+import { GameStateError } from './schema.ts';
+import { GameMode, PlayerColor } from './types.ts';
+import { createTestGame } from './test/helpers.ts';
+
+// A stored state with a few moves in its history, as it would come back from storage.
+const storedState = () => {
+    const game = createTestGame(GameMode.T20, [PlayerColor.Blue, PlayerColor.Green], {}, 5);
+    for (let move = 0; move < 6; move++) {
+        const diceResult = game.rollDice();
+        game.playTurn(game.makeAIDecision(diceResult), diceResult);
+    }
+    return JSON.parse(JSON.stringify(game.toJSON()));
+};
+
+// The problems fromJSON reports for a state, or none if it loads.
+const problemsLoading = (state: unknown): string[] => {
+    try {
+        Game.fromJSON(state);
+        return [];
+    } catch (err) {
+        expect(err).toBeInstanceOf(GameStateError);
+        return (err as GameStateError).problems;
+    }
+};
+
+describe('Game.fromJSON', () => {
+    it('loads the state the game saved', () => {
+        const state = storedState();
+        expect(Game.fromJSON(state).toJSON()).toEqual(state);
+    });
+
+    it('has no seed when the state was stored without its dice generator', () => {
+        const state = storedState();
+        expect(Game.fromJSON(state).seed).toBe(5);
+        delete state.random;
+        expect(Game.fromJSON(state).seed).toBeNull();
+    });
+
+    it('rejects a board square with no coordinates', () => {
+        const state = storedState();
+        state.board[3].coords = null;
+        expect(problemsLoading(state)).toEqual(['board: Square 3 has no row and column.']);
+    });
+
+    it('rejects something that is not a game', () => {
+        expect(problemsLoading('not a game')).toEqual(['The game state is not an object.']);
+        expect(problemsLoading({ version: 99 })).toHaveLength(1);
+    });
+
+    it.each([
+        ['diceResult', null],
+        ['from', 'home'],
+        ['to', 999],
+        ['runs', '4'],
+        ['wickets', -1],
+        ['kills', [null]],
+        ['level', 0],
+        ['levelUp', undefined],
+        ['extraTurn', undefined],
+        ['fielding', 'yes'],
+        ['superOver', 1],
+    ])('rejects a move whose %s is %j', (field, value) => {
+        const state = storedState();
+        state.history[0] = { ...state.history[0], [field]: value };
+        expect(problemsLoading(state)).toEqual([expect.stringMatching(new RegExp(`^history\\[0\\]\\.${field} `))]);
+    });
+
+    it('loads a move from before fielding and Super Overs were recorded', () => {
+        const state = storedState();
+        delete state.history[0].fielding;
+        delete state.history[0].superOver;
+        expect(problemsLoading(state)).toEqual([]);
+    });
+
+    it('rejects a move by a player or token that is not in the game', () => {
+        const state = storedState();
+        state.history[0] = { ...state.history[0], playerId: 9, tokenId: 1 };
+        state.history[1].kills = [{ playerId: 1, tokenId: 9 }];
+        expect(problemsLoading(state)).toEqual([
+            'history[0] moves token 1 of player 9, who is not in the game.',
+            'history[1] knocks out token 9 of player 1, who is not in the game.',
+        ]);
+    });
+
+    it('rejects damaged Super Over and innings scores', () => {
+        const state = storedState();
+        state.superOvers = [1, [{ playerId: 1, runs: 4 }]];
+        state.innings = [{ playerId: 1, runs: 10, wickets: 2 }];
+        expect(problemsLoading(state)).toEqual([
+            'superOvers[0] must be a list of scores.',
+            'superOvers[1][0] needs a playerId, runs and wickets.',
+            'innings[0] needs a playerId, runs, wickets, declared, followOn and endedAfterMove.',
+        ]);
+    });
+
+    it('rejects scores for a player who is not in the game', () => {
+        const state = storedState();
+        state.superOvers = [[{ playerId: 7, runs: 4, wickets: 0 }]];
+        state.innings = [{ playerId: 8, runs: 10, wickets: 2, declared: false, followOn: false, endedAfterMove: 3 }];
+        expect(problemsLoading(state)).toEqual([
+            'superOvers[0] scores player 7, who is not in the game.',
+            'innings[0] is for player 8, who is not in the game.',
+        ]);
+    });
+});
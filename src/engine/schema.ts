@@ -0,0 +1,275 @@
+import { boardLayout, validateBoard } from './boardLayout.ts';
+import { AIDifficulty, Direction, GameMode, MAX_TOKENS_PER_PLAYER, PlayerColor } from './types.ts';
+import type { BoardSquare } from './types.ts';
+import type { GameSnapshot } from './game.ts';
+
+/**
+ * The version of the state `Game.toJSON()` writes. Bump it whenever a stored field is added,
+ * removed or changes meaning, and add a step to MIGRATIONS that upgrades the version before.
+ * States saved before versions existed are version 1.
+ */
+export const GAME_STATE_VERSION = 2;
+
+/**
+ * Thrown when a stored game state cannot be read: it is damaged, not a game at all,
+ * or was saved by a newer version of the game. `problems` lists everything wrong with it.
+ */
+export class GameStateError extends Error {
+    public readonly problems: string[];
+
+    constructor(problems: string[]) {
+        super(`Invalid game state: ${problems.join(' ')}`);
+        this.name = 'GameStateError';
+        this.problems = problems;
+    }
+}
+
+type StoredState = Record<string, unknown>;
+
+const isObject = (value: unknown): value is StoredState => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isCount = (value: unknown, min = 0): value is number => Number.isInteger(value) && (value as number) >= min;
+const isOneOf = <T>(value: unknown, options: readonly T[]): value is T => options.includes(value as T);
+
+// MIGRATIONS[n] upgrades a state stored by version n to version n + 1.
+const MIGRATIONS: Record<number, (state: StoredState) => StoredState> = {
+    // Before versions, rules and features were added one by one, and the states saved before
+    // each simply leave its field out. They played the way the game was hard-coded back then.
+    1: state => ({
+        ...state,
+        settings: {
+            killBonus: 'squareValue',
+            tokensPerPlayer: 2,
+            superOverTieRule: 'repeat',
+            inningsMode: 'roundRobin',
+            fieldersCanKill: false,
+            ...(isObject(state.settings) ? state.settings : {}),
+        },
+        pendingDiceResult: state.pendingDiceResult ?? null,
+        history: state.history ?? [],
+        superOvers: state.superOvers ?? [],
+        innings: state.innings ?? [],
+        aiDifficulty: state.aiDifficulty ?? AIDifficulty.Medium,
+        // Games saved before boards were configurable were played on the standard board.
+        board: state.board ?? boardLayout,
+    }),
+};
+
+/**
+ * Upgrades a stored state to the current version. Throws a GameStateError if it is not a
+ * game state or comes from a newer version of the game.
+ */
+export const migrateGameState = (data: unknown): StoredState => {
+    if (!isObject(data)) {
+        throw new GameStateError(['The game state is not an object.']);
+    }
+    const version = data.version ?? 1;
+    if (!isCount(version, 1)) {
+        throw new GameStateError([`The game state version ${JSON.stringify(version)} is not a whole number.`]);
+    }
+    if (version > GAME_STATE_VERSION) {
+        throw new GameStateError([`The game state is version ${version}, but this version of the game reads up to ${GAME_STATE_VERSION}. Update the game to load it.`]);
+    }
+
+    let state = data;
+    for (let from = version; from < GAME_STATE_VERSION; from++) {
+        state = MIGRATIONS[from](state);
+    }
+    return { ...state, version: GAME_STATE_VERSION };
+};
+
+const validateSettings = (settings: unknown): string[] => {
+    if (!isObject(settings)) return ['settings must be an object.'];
+    const problems: string[] = [];
+    const check = (ok: boolean, message: string) => { if (!ok) problems.push(`settings.${message}`); };
+    check(typeof settings.allowAntiClockwise === 'boolean', 'allowAntiClockwise must be true or false.');
+    check(isOneOf(settings.killRule, ['jackpot', 'fortress']), 'killRule must be "jackpot" or "fortress".');
+    check(typeof settings.stealLevelOnKill === 'boolean', 'stealLevelOnKill must be true or false.');
+    check(isOneOf(settings.killBonus, ['none', 'squareValue', 'doubleSquareValue', 'doublePlusLevel', 'stealLevel']), 'killBonus is not a known kill bonus.');
+    check(isCount(settings.tokensPerPlayer, 1) && settings.tokensPerPlayer <= MAX_TOKENS_PER_PLAYER, `tokensPerPlayer must be from 1 to ${MAX_TOKENS_PER_PLAYER}.`);
+    check(isOneOf(settings.superOverTieRule, ['repeat', 'shared']), 'superOverTieRule must be "repeat" or "shared".');
+    check(isOneOf(settings.inningsMode, ['roundRobin', 'sequential']), 'inningsMode must be "roundRobin" or "sequential".');
+    check(typeof settings.fieldersCanKill === 'boolean', 'fieldersCanKill must be true or false.');
+    return problems;
+};
+
+const validateFormat = (format: unknown): string[] => {
+    if (!isObject(format)) return ['format must be an object.'];
+    const problems: string[] = [];
+    if (format.ballsPerPlayer !== null && !isCount(format.ballsPerPlayer, 1)) problems.push('format.ballsPerPlayer must be a whole number above 0, or null.');
+    if (!isCount(format.wicketsPerInnings, 1)) problems.push('format.wicketsPerInnings must be a whole number above 0.');
+    if (!isCount(format.powerplayBalls)) problems.push('format.powerplayBalls must be a whole number.');
+    if (format.testMatch !== undefined) {
+        const testMatch = format.testMatch;
+        if (!isObject(testMatch) || !isCount(testMatch.followOnMargin) || !isCount(testMatch.ballsPerDay, 1) || !isCount(testMatch.days, 1)) {
+            problems.push('format.testMatch must have a followOnMargin, ballsPerDay and days.');
+        }
+    }
+    return problems;
+};
+
+const validatePlayer = (player: unknown, index: number, squareCount: number): string[] => {
+    const name = `players[${index}]`;
+    if (!isObject(player)) return [`${name} must be an object.`];
+    const problems: string[] = [];
+    const isSquare = (value: unknown) => isCount(value) && value < squareCount;
+    if (!isCount(player.id, 1)) problems.push(`${name}.id must be a whole number above 0.`);
+    if (typeof player.name !== 'string') problems.push(`${name}.name must be text.`);
+    if (!isOneOf(player.color, Object.values(PlayerColor))) problems.push(`${name}.color is not a player colour.`);
+    if (!isSquare(player.homeBaseIndex)) problems.push(`${name}.homeBaseIndex is not a square on the board.`);
+    if (typeof player.isAI !== 'boolean') problems.push(`${name}.isAI must be true or false.`);
+    if (typeof player.score !== 'number' || !Number.isFinite(player.score)) problems.push(`${name}.score must be a number.`);
+    if (!isCount(player.wickets)) problems.push(`${name}.wickets must be a whole number.`);
+    if (player.turnsRemaining !== null && !isCount(player.turnsRemaining)) problems.push(`${name}.turnsRemaining must be a whole number, or null.`);
+    if (typeof player.isAllOut !== 'boolean') problems.push(`${name}.isAllOut must be true or false.`);
+    if (!Array.isArray(player.tokens) || player.tokens.length === 0) {
+        problems.push(`${name}.tokens must be a list of at least one token.`);
+    } else {
+        player.tokens.forEach((token: unknown, tokenIndex) => {
+            if (!isObject(token) || !isCount(token.id, 1) || !isSquare(token.positionIndex) || !isCount(token.level, 1)) {
+                problems.push(`${name}.tokens[${tokenIndex}] needs an id, a positionIndex on the board and a level.`);
+            }
+        });
+    }
+    return problems;
+};
+
+const isDiceResult = (dice: unknown) =>
+    isObject(dice) && isCount(dice.movement, 1) && dice.movement <= 6 && isOneOf(dice.direction, Object.values(Direction));
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Replays, scorecards and commentary read every field of a move, so a damaged one is as bad as a missing one.
+const validateMove = (move: unknown, index: number, squareCount: number): string[] => {
+    const name = `history[${index}]`;
+    if (!isObject(move)) return [`${name} must be an object.`];
+    const problems: string[] = [];
+    const isSquare = (value: unknown) => isCount(value) && value < squareCount;
+    if (!isCount(move.playerId, 1)) problems.push(`${name}.playerId must be a whole number above 0.`);
+    if (!isCount(move.tokenId, 1)) problems.push(`${name}.tokenId must be a whole number above 0.`);
+    if (!isDiceResult(move.diceResult)) problems.push(`${name}.diceResult must be a dice roll.`);
+    if (!isSquare(move.from)) problems.push(`${name}.from is not a square on the board.`);
+    if (!isSquare(move.to)) problems.push(`${name}.to is not a square on the board.`);
+    if (!isNumber(move.runs)) problems.push(`${name}.runs must be a number.`);
+    if (!isCount(move.wickets)) problems.push(`${name}.wickets must be a whole number.`);
+    if (!Array.isArray(move.kills) || !move.kills.every(kill => isObject(kill) && isCount(kill.playerId, 1) && isCount(kill.tokenId, 1))) {
+        problems.push(`${name}.kills must be a list of the player and token knocked out.`);
+    }
+    if (!isCount(move.level, 1)) problems.push(`${name}.level must be a whole number above 0.`);
+    (['levelUp', 'extraTurn'] as const).forEach(field => {
+        if (typeof move[field] !== 'boolean') problems.push(`${name}.${field} must be true or false.`);
+    });
+    // Older histories leave these out.
+    (['fielding', 'superOver'] as const).forEach(field => {
+        if (move[field] !== undefined && typeof move[field] !== 'boolean') problems.push(`${name}.${field} must be true or false, or left out.`);
+    });
+    return problems;
+};
+
+const validateSuperOverScore = (score: unknown, name: string): string[] =>
+    isObject(score) && isCount(score.playerId, 1) && isNumber(score.runs) && isCount(score.wickets)
+        ? []
+        : [`${name} needs a playerId, runs and wickets.`];
+
+const validateInnings = (innings: unknown, index: number): string[] =>
+    isObject(innings) && isCount(innings.playerId, 1) && isNumber(innings.runs) && isCount(innings.wickets) &&
+    typeof innings.declared === 'boolean' && typeof innings.followOn === 'boolean' && isCount(innings.endedAfterMove)
+        ? []
+        : [`innings[${index}] needs a playerId, runs, wickets, declared, followOn and endedAfterMove.`];
+
+// Checks that every player and token the history and scores name is in the game. Only run on a
+// state whose fields are all sound.
+const validateReferences = (state: GameSnapshot): string[] => {
+    const problems: string[] = [];
+    const hasToken = (playerId: number, tokenId: number) =>
+        state.players.some(p => p.id === playerId && p.tokens.some(t => t.id === tokenId));
+    const hasPlayer = (playerId: number) => state.players.some(p => p.id === playerId);
+
+    state.history.forEach((move, index) => {
+        if (!hasToken(move.playerId, move.tokenId)) problems.push(`history[${index}] moves token ${move.tokenId} of player ${move.playerId}, who is not in the game.`);
+        move.kills.forEach(kill => {
+            if (!hasToken(kill.playerId, kill.tokenId)) problems.push(`history[${index}] knocks out token ${kill.tokenId} of player ${kill.playerId}, who is not in the game.`);
+        });
+    });
+    state.superOvers.forEach((round, roundIndex) => round.forEach(score => {
+        if (!hasPlayer(score.playerId)) problems.push(`superOvers[${roundIndex}] scores player ${score.playerId}, who is not in the game.`);
+    }));
+    state.innings.forEach((innings, index) => {
+        if (!hasPlayer(innings.playerId)) problems.push(`innings[${index}] is for player ${innings.playerId}, who is not in the game.`);
+    });
+    return problems;
+};
+
+/**
+ * Lists everything wrong with a state of the current version. An empty list means
+ * `Game.fromJSON` can safely load it.
+ */
+export const validateGameState = (state: StoredState): string[] => {
+    const problems: string[] = [];
+
+    if (!isOneOf(state.gameMode, Object.values(GameMode))) problems.push('gameMode is not a game mode.');
+    problems.push(...validateSettings(state.settings));
+    if (state.format !== undefined) problems.push(...validateFormat(state.format));
+    if (!isOneOf(state.aiDifficulty, Object.values(AIDifficulty))) problems.push('aiDifficulty is not an AI difficulty.');
+    if (typeof state.isGameOver !== 'boolean') problems.push('isGameOver must be true or false.');
+
+    const board = Array.isArray(state.board) ? state.board as BoardSquare[] : null;
+    if (!board) problems.push('board must be a list of squares.');
+    const squareCount = board?.length ?? 0;
+
+    if (!Array.isArray(state.players) || state.players.length === 0) {
+        problems.push('players must be a list of at least one player.');
+    } else {
+        state.players.forEach((player, index) => problems.push(...validatePlayer(player, index, squareCount)));
+        if (!isCount(state.currentPlayerIndex) || state.currentPlayerIndex >= state.players.length) {
+            problems.push(`currentPlayerIndex must point at one of the ${state.players.length} players.`);
+        }
+        const ids = state.players.map(p => p?.id);
+        if (new Set(ids).size !== ids.length) problems.push('Two players have the same id.');
+    }
+
+    const dice = state.pendingDiceResult;
+    if (dice !== null && !isDiceResult(dice)) {
+        problems.push('pendingDiceResult must be a dice roll, or null.');
+    }
+    (['history', 'superOvers', 'innings'] as const).forEach(field => {
+        if (!Array.isArray(state[field])) problems.push(`${field} must be a list.`);
+    });
+    if (Array.isArray(state.history)) {
+        state.history.forEach((move, index) => problems.push(...validateMove(move, index, squareCount)));
+    }
+    if (Array.isArray(state.superOvers)) {
+        state.superOvers.forEach((round, index) => {
+            if (!Array.isArray(round)) {
+                problems.push(`superOvers[${index}] must be a list of scores.`);
+            } else {
+                round.forEach((score, scoreIndex) => problems.push(...validateSuperOverScore(score, `superOvers[${index}][${scoreIndex}]`)));
+            }
+        });
+    }
+    if (Array.isArray(state.innings)) {
+        state.innings.forEach((innings, index) => problems.push(...validateInnings(innings, index)));
+    }
+    if (state.random !== undefined && !(isObject(state.random) && typeof state.random.seed === 'number' && isCount(state.random.cursor))) {
+        problems.push('random must have a seed and a cursor.');
+    }
+
+    // Only check the board, and who the history names, once the fields are known to be sound.
+    if (board && problems.length === 0) {
+        problems.push(...validateBoard(board, state.players as GameSnapshot['players']).map(problem => `board: ${problem}`));
+        problems.push(...validateReferences(state as unknown as GameSnapshot));
+    }
+    return problems;
+};
+
+/**
+ * Reads a stored game state of any version: upgrades it, then checks it.
+ * Throws a GameStateError listing the problems if it cannot be loaded.
+ */
+export const parseGameState = (data: unknown): GameSnapshot => {
+    const state = migrateGameState(data);
+    const problems = validateGameState(state);
+    if (problems.length > 0) {
+        throw new GameStateError(problems);
+    }
+    return state as unknown as GameSnapshot;
+};
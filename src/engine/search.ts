@@ -0,0 +1,92 @@
+import { SeededRandom } from './random.ts';
+import { chooseAIToken, WEIGHTS } from './ai.ts';
+import { AIDifficulty } from './types.ts';
+import type { Game } from './game.ts';
+import type { DiceResult } from './types.ts';
+
+/**
+ * Limits how long the Expert AI may think. It stops at whichever limit it reaches first,
+ * and always finishes at least one rollout per token.
+ */
+export interface SearchBudget {
+    maxIterations: number;
+    timeLimitMs?: number;
+}
+
+// How many turns each player gets in a rollout before the position is judged.
+const ROLLOUT_ROUNDS = 3;
+
+/**
+ * Picks a token for the current player by Monte Carlo rollouts: each choice is played out
+ * many times over random future dice, with every player then playing like Medium, and the
+ * choice that leaves the current player best placed on average wins.
+ */
+export const chooseTokenByRollouts = (game: Game, diceResult: DiceResult, budget: SearchBudget): number => {
+    const player = game.getCurrentPlayer();
+    const tokenIds = player.tokens.map(t => t.id);
+    const totals = tokenIds.map(() => 0);
+    const startedAt = Date.now();
+    // Derive the rollout dice from the game's own random state, so a seeded game searches the same way every time.
+    const { seed, cursor } = game.toJSON().random;
+
+    let iterations = 0;
+    while (iterations < budget.maxIterations) {
+        if (iterations > 0 && budget.timeLimitMs !== undefined && Date.now() - startedAt >= budget.timeLimitMs) break;
+
+        // Every token is tried against the same future dice, so the comparison between them is fair.
+        const rolloutSeed = (seed + Math.imul(cursor + iterations + 1, 0x9E3779B1)) | 0;
+        tokenIds.forEach((tokenId, i) => {
+            totals[i] += rollout(game, player.id, tokenId, diceResult, rolloutSeed);
+        });
+        iterations++;
+    }
+
+    const bestTotal = Math.max(...totals);
+    return tokenIds[totals.indexOf(bestTotal)];
+};
+
+/**
+ * Plays a move and then a few random rounds on a copy of the game.
+ * @returns How far ahead of the best opponent the player ends up.
+ */
+const rollout = (game: Game, playerId: number, tokenId: number, diceResult: DiceResult, seed: number): number => {
+    const random = new SeededRandom(seed);
+    const trial = game.clone({ random });
+    trial.playTurn(tokenId, diceResult);
+
+    let turnsLeft = ROLLOUT_ROUNDS * trial.players.length;
+    while (turnsLeft > 0 && !trial.isGameOver) {
+        const current = trial.getCurrentPlayer();
+        if (!trial.isInPlay(current)) {
+            trial.advanceToNextPlayer();
+            continue;
+        }
+        const dice = trial.rollDice();
+        trial.playTurn(chooseAIToken(trial, dice, AIDifficulty.Medium, () => random.next()), dice);
+        turnsLeft--;
+    }
+
+    const standings = trial.players.map(p => ({ id: p.id, standing: getStanding(trial, p) }));
+    const own = standings.find(s => s.id === playerId)!.standing;
+    const bestOpponent = Math.max(...standings.filter(s => s.id !== playerId).map(s => s.standing));
+    return own - bestOpponent;
+};
+
+/**
+ * Judges a player's position in runs: their score, plus what their token levels are worth,
+ * minus what their lost wickets cost. Once a Super Over has started, only it counts.
+ */
+const getStanding = (game: Game, player: Game['players'][number]): number => {
+    const weights = WEIGHTS[AIDifficulty.Medium];
+    let { score: runs, wickets } = player;
+    const lastSuperOver = game.superOvers.at(-1);
+    if (lastSuperOver) {
+        const superOverScore = lastSuperOver.find(s => s.playerId === player.id);
+        if (!superOverScore) return -Infinity; // Out of contention
+        ({ runs, wickets } = superOverScore);
+    }
+
+    if (player.isAllOut) return runs - weights.allOut;
+    const levels = player.tokens.reduce((sum, t) => sum + (t.level - 1), 0);
+    return runs + levels * weights.level - wickets * weights.wicket;
+};
@@ -0,0 +1,98 @@
+import { SquareType } from './types.ts';
+import type { Game } from './game.ts';
+import type { MoveRecord } from './types.ts';
+
+/**
+ * What a player, or one of their tokens, did with the bat (and as a hunter) over the match.
+ * Everything is worked out from the move history; Super Overs are left out.
+ */
+export interface BattingStats {
+    balls: number; // Balls faced. Extras and fielding turns are not balls, like in the overs.
+    runs: number; // Kill bonuses included
+    fours: number; // Landings on Runs squares worth 4
+    sixes: number; // Landings on Runs squares worth 6
+    dotBalls: number; // Balls faced that scored nothing
+    extras: number; // Landings on Extra squares
+    strikeRate: number; // Runs per 100 balls
+    highestLevel: number;
+    kills: number; // Opponents' tokens knocked out, fielding included
+    timesKilled: number; // Times an opponent knocked this side's tokens out
+    dismissals: number; // Wickets lost, whether on a Wicket square or to a kill
+}
+
+export interface TokenStats extends BattingStats {
+    tokenId: number;
+}
+
+export interface PlayerStats extends BattingStats {
+    playerId: number;
+    tokens: TokenStats[];
+    worm: number[]; // Total runs after each ball faced, starting with 0 before the first
+}
+
+const createBattingStats = (): BattingStats => ({
+    balls: 0, runs: 0, fours: 0, sixes: 0, dotBalls: 0, extras: 0,
+    strikeRate: 0, highestLevel: 1, kills: 0, timesKilled: 0, dismissals: 0,
+});
+
+/**
+ * Adds one of the mover's own turns at the crease to their stats.
+ */
+const addBattingMove = (stats: BattingStats, move: MoveRecord, game: Game): void => {
+    const square = game.board[move.to];
+    stats.runs += move.runs;
+    stats.highestLevel = Math.max(stats.highestLevel, move.level);
+    stats.dismissals += move.wickets;
+    if (square.type === SquareType.Runs && square.value === 4) stats.fours++;
+    if (square.type === SquareType.Runs && square.value === 6) stats.sixes++;
+    if (square.type === SquareType.Extra) stats.extras++;
+    if (!move.extraTurn) {
+        stats.balls++;
+        if (move.runs === 0) stats.dotBalls++;
+    }
+};
+
+const finishStats = (stats: BattingStats): void => {
+    stats.strikeRate = stats.balls > 0 ? (stats.runs / stats.balls) * 100 : 0;
+};
+
+/**
+ * Works out every player's match stats, and each of their tokens', from the game's history.
+ */
+export const getMatchStats = (game: Game): PlayerStats[] => {
+    const statsByPlayer = new Map<number, PlayerStats>(game.players.map(player => [player.id, {
+        ...createBattingStats(),
+        playerId: player.id,
+        tokens: player.tokens.map(token => ({ ...createBattingStats(), tokenId: token.id })),
+        worm: [0],
+    }]));
+
+    game.history.filter(move => !move.superOver).forEach(move => {
+        const mover = statsByPlayer.get(move.playerId)!;
+        const moverToken = mover.tokens.find(t => t.tokenId === move.tokenId)!;
+        mover.kills += move.kills.length;
+        moverToken.kills += move.kills.length;
+
+        move.kills.forEach(kill => {
+            const victim = statsByPlayer.get(kill.playerId)!;
+            const victimToken = victim.tokens.find(t => t.tokenId === kill.tokenId)!;
+            victim.timesKilled++;
+            victim.dismissals++;
+            victimToken.timesKilled++;
+            victimToken.dismissals++;
+        });
+
+        if (move.fielding) return;
+        addBattingMove(mover, move, game);
+        addBattingMove(moverToken, move, game);
+        // Runs off an extra join the next ball on the worm.
+        if (!move.extraTurn) mover.worm.push(mover.runs);
+    });
+
+    return [...statsByPlayer.values()].map(stats => {
+        finishStats(stats);
+        stats.tokens.forEach(finishStats);
+        if (stats.worm.at(-1) !== stats.runs) stats.worm.push(stats.runs);
+        return stats;
+    });
+};
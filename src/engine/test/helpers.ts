@@ -0,0 +1,42 @@
+// src/engine/test/helpers.ts
+//
+// Shared by the engine's tests. It sits in a folder of its own so sync-engine does not copy it.
+
+import { Game } from '../game.ts';
+import { SeededRandom } from '../random.ts';
+import type { GameMode, GameSettings, MatchFormat, PlayerColor } from '../types.ts';
+
+// The Classic rules, which the tests change one setting at a time.
+export const TEST_RULES: GameSettings = {
+    allowAntiClockwise: false,
+    killRule: 'jackpot',
+    stealLevelOnKill: true,
+    killBonus: 'squareValue',
+    tokensPerPlayer: 2,
+    superOverTieRule: 'repeat',
+    inningsMode: 'roundRobin',
+    fieldersCanKill: true,
+};
+
+/**
+ * A game with no human players, whose dice are drawn from `seed`.
+ */
+export const createTestGame = (mode: GameMode, colors: PlayerColor[], rules: Partial<GameSettings> = {}, seed = 1, format?: MatchFormat) =>
+    new Game(mode, colors, { ...TEST_RULES, ...rules }, undefined, { random: new SeededRandom(seed), format });
+
+/**
+ * Plays the game out with the AI in every seat. Batters declare whenever `shouldDeclare` says so,
+ * which is the AI's own choice unless a test wants declarations of its own.
+ */
+export const playToEnd = (game: Game, shouldDeclare = (g: Game) => g.shouldAIDeclare()) => {
+    while (!game.isGameOver) {
+        if (!game.isInPlay(game.getCurrentPlayer())) {
+            game.advanceToNextPlayer();
+        } else if (shouldDeclare(game)) {
+            game.declareInnings();
+        } else {
+            const diceResult = game.rollDice();
+            game.playTurn(game.makeAIDecision(diceResult), diceResult);
+        }
+    }
+};
@@ -0,0 +1,221 @@
+export enum Direction {
+    Clockwise = "Green",
+    AntiClockwise = "Red",
+}
+
+export enum SquareType {
+    SafeZone = "SafeZone",
+    Runs = "Runs",
+    DotBall = "DotBall",
+    Wicket = "Wicket",
+    Extra = "Extra",
+}
+
+export enum PlayerColor {
+    Blue = "Blue",
+    Yellow = "Yellow",
+    Green = "Green",
+    Purple = "Purple",
+}
+
+export enum GameMode {
+    T20 = "T20",
+    FiftyFifty = "50-50",
+    Test = "Test",
+    Custom = "Custom",
+}
+
+/**
+ * How long a match lasts and what it takes to bowl a player out.
+ */
+export interface MatchFormat {
+    ballsPerPlayer: number | null; // Turns each player gets; null plays on until everyone is all out
+    wicketsPerInnings: number; // Wickets that bowl a player all out
+    powerplayBalls: number; // Runs off Runs squares count double for each player's first this many balls
+    testMatch?: TestMatchRules; // Only with unlimited balls
+}
+
+/**
+ * The rules of a Test match. Everyone bats twice, one innings after another, and may declare
+ * an innings closed. If the days run out before a result, the match is drawn.
+ */
+export interface TestMatchRules {
+    followOnMargin: number; // Trailing the first-innings leader by at least this many runs means batting again straight away
+    ballsPerDay: number; // For each player, so matches with more players get longer days
+    days: number;
+}
+
+// How far a Test match has got. Days end after a set number of balls.
+export interface TestMatchClock {
+    day: number;
+    ballsLeftToday: number;
+    ballsLeftInMatch: number;
+}
+
+// One finished innings of a Test match.
+export interface InningsScore {
+    playerId: number;
+    runs: number;
+    wickets: number;
+    declared: boolean;
+    followOn: boolean; // Batted straight after the player's first innings
+    endedAfterMove: number; // The length of the move history when the innings ended
+}
+
+export enum AIDifficulty {
+    Easy = "Easy",
+    Medium = "Medium",
+    Hard = "Hard",
+    Expert = "Expert",
+}
+
+export interface BoardSquare {
+    readonly index: number;
+    readonly coords: { row: number; col: number };
+    readonly type: SquareType;
+    readonly value: number; // For runs, 0 otherwise
+    readonly ownerColor?: PlayerColor;
+}
+
+export interface PlayerToken {
+    id: number;
+    positionIndex: number;
+    level: number;
+}
+
+export interface DiceResult {
+    movement: number; // 1 to 6
+    direction: Direction;
+}
+
+// We will use a class for the Player, but here is the interface for its properties
+export interface IPlayer {
+    readonly id: number;
+    readonly name: string;
+    readonly color: PlayerColor;
+    readonly isAI: boolean;
+    score: number;
+    wickets: number;
+    turnsRemaining: number | null; // null for Test mode
+    readonly homeBaseIndex: number;
+    tokens: PlayerToken[];
+    isAllOut: boolean;
+}
+
+/**
+ * What the attacker earns for each token they knock out:
+ * - `none`: nothing beyond the square's usual score
+ * - `squareValue`: the value of the Runs square the kill happened on
+ * - `doubleSquareValue`: twice that value
+ * - `doublePlusLevel`: twice that value plus the victim's level
+ * - `stealLevel`: no runs, but the attacking token gains the victim's level. This replaces
+ *   `stealLevelOnKill`, which is ignored under it, so the level is only handed over once.
+ */
+export type KillBonus = 'none' | 'squareValue' | 'doubleSquareValue' | 'doublePlusLevel' | 'stealLevel';
+
+export interface GameSettings {
+    allowAntiClockwise: boolean;
+    killRule: 'jackpot' | 'fortress';
+    stealLevelOnKill: boolean; // The attacker takes the victim's level if it is higher. Ignored under the `stealLevel` kill bonus
+    killBonus: KillBonus;
+    tokensPerPlayer: number; // Batters each side has on the board, from 1 to MAX_TOKENS_PER_PLAYER
+    superOverTieRule: SuperOverTieRule;
+    inningsMode: InningsMode;
+    fieldersCanKill: boolean; // In a sequential innings, the other players field between balls and can knock out the batter's tokens
+}
+
+/**
+ * How the players take their innings: `roundRobin` has everyone bat at once, taking turns,
+ * `sequential` has each player bat their whole innings in seat order, with the later ones chasing.
+ */
+export type InningsMode = 'roundRobin' | 'sequential';
+
+/**
+ * What happens when a Super Over is tied as well: `repeat` plays another one between the
+ * players still level (up to a limit), `shared` ends the game with them sharing the win.
+ */
+export type SuperOverTieRule = 'repeat' | 'shared';
+
+// What one player made in a Super Over. These never count towards their innings.
+export interface SuperOverScore {
+    playerId: number;
+    runs: number;
+    wickets: number;
+}
+
+/**
+ * Who won a finished game, and how: on their innings, in a Super Over, or not at all (a tie).
+ */
+export interface GameResult {
+    winnerIds: number[]; // More than one only when `decidedBy` is 'tie', none when it is 'draw'
+    decidedBy: 'innings' | 'superOver' | 'tie' | 'draw';
+    margin?: ResultMargin; // Set when `decidedBy` is 'innings'
+}
+
+/**
+ * How far the winner won by: an innings (they never needed their second one) and some runs,
+ * runs, or the wickets they had left when they passed the target.
+ */
+export type ResultMargin =
+    | { by: 'innings'; runs: number }
+    | { by: 'runs'; runs: number }
+    | { by: 'wickets'; wickets: number };
+
+/**
+ * Where the batter's chase stands in a sequential innings. The target is one run more than
+ * the best score of the players who batted before them.
+ */
+export interface Chase {
+    batterId: number;
+    target: number;
+    runsRequired: number;
+    ballsRemaining: number | null; // null when the innings lasts until all out
+    requiredRunRate: number | null; // Runs needed per six balls, if the balls are limited
+}
+
+export const MAX_TOKENS_PER_PLAYER = 4;
+
+// Under the fortress kill rule, this many tokens of one player on a square cannot be killed.
+export const FORTRESS_SIZE = 2;
+
+/**
+ * Something that happened while a turn was played. `Game.playTurn` returns these in the order
+ * they happened, and also hands each one to any listener registered with `Game.subscribe`.
+ */
+export type GameEvent =
+    | { type: 'moved'; playerId: number; tokenId: number; from: number; to: number; path: number[] }
+    // `reason` is 'lap' when the token passed its home base, 'steal' when it took a victim's level.
+    | { type: 'levelUp'; playerId: number; tokenId: number; level: number; reason: 'lap' | 'steal' }
+    | { type: 'runsScored'; playerId: number; tokenId: number; runs: number; squareIndex: number; source: 'square' | 'extra' | 'killBonus' }
+    // `killedBy` is set when the wicket fell because an opponent landed on the token.
+    | { type: 'wicket'; playerId: number; tokenId: number; wickets: number; squareIndex: number; killedBy?: number }
+    | { type: 'kill'; playerId: number; tokenId: number; victimId: number; victimTokenId: number; victimLevel: number; squareIndex: number }
+    | { type: 'extraTurn'; playerId: number }
+    | { type: 'allOut'; playerId: number }
+    // Tied leaders start a Super Over; `round` counts from 1.
+    | { type: 'superOver'; playerIds: number[]; round: number }
+    // A Test match innings ended, bowled out or declared.
+    | { type: 'inningsOver'; playerId: number; runs: number; wickets: number; declared: boolean }
+    | { type: 'followOn'; playerId: number }
+    | { type: 'gameOver' };
+
+export type GameEventListener = (event: GameEvent) => void;
+
+/**
+ * One played turn, as recorded in `Game.history`.
+ */
+export interface MoveRecord {
+    playerId: number;
+    tokenId: number;
+    diceResult: DiceResult;
+    from: number;
+    to: number; // The square the token landed on, even if a wicket then sent it home
+    runs: number; // Everything the mover scored this turn, kill bonuses included
+    wickets: number; // Wickets the mover lost this turn
+    kills: { playerId: number; tokenId: number }[];
+    level: number; // The moving token's level after the turn
+    levelUp: boolean;
+    extraTurn: boolean;
+    fielding?: boolean; // The mover was fielding in a sequential innings. Missing from older histories.
+    superOver?: boolean; // Played in a Super Over, so it does not count towards the innings. Missing from older histories.
+}
@@ -0,0 +1,34 @@
+// src/matchFormats.tsx
+
+import type { MatchFormat } from './engine/types';
+import { createNamedStorage } from './namedStorage';
+
+// A named match format that can be picked when starting a Custom game.
+export type MatchFormatPreset = {
+    name: string;
+    format: MatchFormat;
+};
+
+// Offered next to the players' own presets. The format panel won't save over their names.
+export const BUILT_IN_PRESETS: MatchFormatPreset[] = [
+    { name: 'T10', format: { ballsPerPlayer: 10, wicketsPerInnings: 10, powerplayBalls: 3 } },
+    { name: 'The Hundred', format: { ballsPerPlayer: 100, wicketsPerInnings: 10, powerplayBalls: 25 } },
+];
+
+const isCount = (value: unknown, min: number) => Number.isInteger(value) && (value as number) >= min;
+
+const isMatchFormat = (format: Partial<MatchFormat> | undefined) =>
+    (format?.ballsPerPlayer === null || isCount(format?.ballsPerPlayer, 1)) &&
+    isCount(format?.wicketsPerInnings, 1) &&
+    isCount(format?.powerplayBalls, 0);
+
+const parsePreset = (stored: unknown): MatchFormatPreset | null => {
+    const preset = stored as Partial<MatchFormatPreset> | null;
+    return typeof preset?.name === 'string' && isMatchFormat(preset.format) ? { name: preset.name, format: preset.format! } : null;
+};
+
+const presetStorage = createNamedStorage('cricket-board-game.formats', parsePreset);
+
+export const loadSavedPresets = presetStorage.load;
+export const savePreset = presetStorage.save;
+export const deletePreset = presetStorage.delete;
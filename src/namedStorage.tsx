@@ -0,0 +1,33 @@
+// src/namedStorage.tsx
+
+/**
+ * A list of named entries kept in local storage under one key, such as saved boards or presets.
+ * Names are unique: saving an entry replaces any other with its name. `parse` checks each stored
+ * entry and returns it, tidied up if need be, or null to leave it out, so one damaged entry
+ * never hides the rest. Saving throws if local storage is full.
+ */
+export const createNamedStorage = <Entry extends { name: string }>(storageKey: string, parse: (stored: unknown) => Entry | null) => {
+    const load = (): Entry[] => {
+        try {
+            const stored: unknown = JSON.parse(localStorage.getItem(storageKey) ?? '[]');
+            if (!Array.isArray(stored)) return [];
+            return stored.map(parse).filter((entry): entry is Entry => entry !== null);
+        } catch {
+            return [];
+        }
+    };
+
+    const store = (entries: Entry[]) => {
+        localStorage.setItem(storageKey, JSON.stringify(entries));
+    };
+
+    return {
+        load,
+        save: (entry: Entry) => store([...load().filter(e => e.name !== entry.name), entry]),
+        // Replaces any other entry that already had the new name.
+        rename: (oldName: string, newName: string) => store(load()
+            .filter(e => e.name !== newName || newName === oldName)
+            .map(e => e.name === oldName ? { ...e, name: newName } : e)),
+        delete: (name: string) => store(load().filter(e => e.name !== name)),
+    };
+};
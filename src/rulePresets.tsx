@@ -0,0 +1,129 @@
+// src/rulePresets.tsx
+
+import { MAX_TOKENS_PER_PLAYER } from './engine/types';
+import type { GameSettings } from './engine/types';
+import { createNamedStorage } from './namedStorage';
+
+// A named set of house rules that can be applied in the settings screen.
+export type RulePreset = {
+    name: string;
+    rules: GameSettings;
+};
+
+// The rules a new player starts with.
+export const DEFAULT_RULES: GameSettings = {
+    allowAntiClockwise: false,
+    killRule: 'jackpot',
+    stealLevelOnKill: true,
+    killBonus: 'squareValue', // Runs of the square the kill happened on
+    tokensPerPlayer: 2,
+    superOverTieRule: 'repeat', // Keep playing Super Overs until someone wins
+    inningsMode: 'roundRobin',
+    fieldersCanKill: true, // Only matters for sequential innings
+};
+
+// Listed before the players' own presets. Their names are reserved, so a saved preset never hides one.
+export const BUILT_IN_RULE_PRESETS: RulePreset[] = [
+    { name: 'Classic', rules: DEFAULT_RULES },
+    { name: 'Fortress', rules: { ...DEFAULT_RULES, killRule: 'fortress', stealLevelOnKill: false, killBonus: 'none' } },
+    { name: 'Chaos', rules: { ...DEFAULT_RULES, allowAntiClockwise: true, killBonus: 'doublePlusLevel', tokensPerPlayer: MAX_TOKENS_PER_PLAYER } },
+];
+
+/**
+ * Every value each rule can take. Share codes store the position of a rule's value in its list,
+ * so only ever add values at the end of a list, and add new rules at the end of the object
+ * with the old behaviour first: codes made before then still read back the same.
+ */
+const RULE_OPTIONS: { [Rule in keyof GameSettings]: readonly GameSettings[Rule][] } = {
+    allowAntiClockwise: [false, true],
+    killRule: ['jackpot', 'fortress'],
+    stealLevelOnKill: [false, true],
+    killBonus: ['none', 'squareValue', 'doubleSquareValue', 'doublePlusLevel', 'stealLevel'],
+    tokensPerPlayer: Array.from({ length: MAX_TOKENS_PER_PLAYER }, (_, i) => i + 1),
+    superOverTieRule: ['repeat', 'shared'],
+    inningsMode: ['roundRobin', 'sequential'],
+    fieldersCanKill: [false, true],
+};
+
+const RULE_NAMES = Object.keys(RULE_OPTIONS) as (keyof GameSettings)[];
+
+/**
+ * Reads rules from stored data, keeping each rule that has a valid value and
+ * falling back to the default for the rest.
+ */
+export const parseRules = (data: unknown): GameSettings => {
+    const stored = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+    const rules: Record<string, unknown> = { ...DEFAULT_RULES };
+    RULE_NAMES.forEach(rule => {
+        if ((RULE_OPTIONS[rule] as readonly unknown[]).includes(stored[rule])) rules[rule] = stored[rule];
+    });
+    return rules as unknown as GameSettings;
+};
+
+export const areSameRules = (a: GameSettings, b: GameSettings) => RULE_NAMES.every(rule => a[rule] === b[rule]);
+
+// --- Share codes ---
+// A code is "R-", the rules packed into one number in base 36, and a check character
+// that catches most typos.
+
+const CODE_PREFIX = 'R-';
+
+const checkCharacter = (digits: string) =>
+    ([...digits].reduce((sum, digit, i) => sum + parseInt(digit, 36) * (i + 1), 0) % 36).toString(36).toUpperCase();
+
+/**
+ * A short code for the rules, like "R-A7K", that `decodeRules` turns back into them.
+ */
+export const encodeRules = (rules: GameSettings): string => {
+    // The first rule is the least significant "digit", so rules added later don't change older codes.
+    const packed = [...RULE_NAMES].reverse().reduce((total, rule) => {
+        const options = RULE_OPTIONS[rule] as readonly unknown[];
+        return total * options.length + Math.max(0, options.indexOf(rules[rule]));
+    }, 0);
+    const digits = packed.toString(36).toUpperCase();
+    return `${CODE_PREFIX}${digits}${checkCharacter(digits)}`;
+};
+
+/**
+ * Reads a share code made by `encodeRules`.
+ * Throws an Error describing what is wrong if it is not a valid code.
+ */
+export const decodeRules = (code: string): GameSettings => {
+    const text = code.trim().toUpperCase();
+    if (!text.startsWith(CODE_PREFIX) || !/^[0-9A-Z]{2,}$/.test(text.slice(CODE_PREFIX.length))) {
+        throw new Error('Share codes look like R-A7K.');
+    }
+    const digits = text.slice(CODE_PREFIX.length, -1);
+    if (checkCharacter(digits) !== text.slice(-1)) {
+        throw new Error('That code has a typo in it.');
+    }
+
+    let packed = parseInt(digits, 36);
+    const rules: Record<string, unknown> = {};
+    RULE_NAMES.forEach(rule => {
+        const options = RULE_OPTIONS[rule] as readonly unknown[];
+        rules[rule] = options[packed % options.length];
+        packed = Math.floor(packed / options.length);
+    });
+    if (packed !== 0) {
+        throw new Error('That code is for rules this version of the game does not have.');
+    }
+    return rules as unknown as GameSettings;
+};
+
+// --- Saved presets ---
+
+// Rules that are missing or unknown fall back to the defaults rather than losing the preset.
+const parseRulePreset = (stored: unknown): RulePreset | null => {
+    const preset = stored as Partial<RulePreset> | null;
+    return typeof preset?.name === 'string' && typeof preset.rules === 'object' ? { name: preset.name, rules: parseRules(preset.rules) } : null;
+};
+
+const rulePresetStorage = createNamedStorage('cricket-board-game.rulePresets', parseRulePreset);
+
+export const loadSavedRulePresets = rulePresetStorage.load;
+export const saveRulePreset = rulePresetStorage.save;
+export const renameRulePreset = rulePresetStorage.rename;
+export const deleteRulePreset = rulePresetStorage.delete;
+
+export const isBuiltInRulePreset = (name: string) => BUILT_IN_RULE_PRESETS.some(p => p.name === name);
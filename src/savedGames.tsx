@@ -0,0 +1,56 @@
+// src/savedGames.tsx
+
+import { Game } from './engine/game';
+import type { GameSnapshot } from './engine/game';
+import { createNamedStorage } from './namedStorage';
+
+// The slot offline games are saved to after every turn. The players' own slots have other names.
+export const AUTOSAVE_NAME = 'Autosave';
+
+// Only offline games are saved here. Online games live on the server.
+export type SavedGameType = 'human-vs-ai' | 'pass-and-play';
+
+// An offline game saved between turns, as `Game.toJSON()` left it.
+export type SavedGame = {
+    name: string;
+    gameType: SavedGameType;
+    savedAt: number; // Milliseconds since the epoch
+    state: GameSnapshot;
+};
+
+// A save needs enough of its state to describe it. Loading checks the rest.
+const isSavedGame = (save: Partial<SavedGame> | null): save is SavedGame =>
+    typeof save?.name === 'string' &&
+    (save.gameType === 'human-vs-ai' || save.gameType === 'pass-and-play') &&
+    typeof save.savedAt === 'number' &&
+    Array.isArray(save.state?.players) && save.state.players.length > 0 && Array.isArray(save.state.history);
+
+const parseSavedGame = (stored: unknown): SavedGame | null => {
+    const save = stored as Partial<SavedGame> | null;
+    return isSavedGame(save) ? save : null;
+};
+
+const saveStorage = createNamedStorage('cricket-board-game.saves', parseSavedGame);
+
+// Most recently saved first.
+export const loadSavedGames = (): SavedGame[] => saveStorage.load().sort((a, b) => b.savedAt - a.savedAt);
+
+/**
+ * Saves the game under a name, replacing any save with the same name.
+ * Throws if local storage is full.
+ */
+export const saveGame = (name: string, gameType: SavedGameType, game: Game) => {
+    saveStorage.save({ name, gameType, savedAt: Date.now(), state: game.toJSON() });
+};
+
+export const deleteSavedGame = saveStorage.delete;
+
+/**
+ * Rebuilds the game from a save, on the player whose turn it was. Saves from older versions
+ * are upgraded. Throws a GameStateError if the save is damaged.
+ */
+export const restoreSavedGame = (save: SavedGame): Game => Game.fromJSON(save.state);
+
+// "T20 · 3 players · move 42", to tell saves apart.
+export const describeSavedGame = (save: SavedGame) =>
+    `${save.state.gameMode} · ${save.state.players.length} players · move ${save.state.history.length + 1}`;
@@ -0,0 +1,50 @@
+// src/settingsStorage.tsx
+
+import { DEFAULT_RULES, parseRules } from './rulePresets';
+import type { AppSettings, TakebackPolicy } from './SettingsContext';
+
+const STORAGE_KEY = 'cricket-board-game.settings';
+
+/**
+ * The version of the stored settings. Bump it when a stored setting changes meaning,
+ * and add a step to MIGRATIONS that upgrades settings stored by the version before.
+ */
+export const SETTINGS_VERSION = 1;
+
+// MIGRATIONS[n] upgrades settings stored by version n to version n + 1.
+const MIGRATIONS: Record<number, (settings: Record<string, unknown>) => Record<string, unknown>> = {};
+
+const TAKEBACK_POLICIES: TakebackPolicy[] = ['off', 'lastMove', 'unlimited'];
+
+export const DEFAULT_SETTINGS: AppSettings = {
+    ...DEFAULT_RULES,
+    takebackPolicy: 'lastMove',
+};
+
+/**
+ * Reads the stored settings, upgrading them from older versions. Settings that are missing or
+ * not valid get their defaults, and so does everything stored by a newer version of the game.
+ */
+export const loadSettings = (): AppSettings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+        if (typeof stored?.version !== 'number' || stored.version > SETTINGS_VERSION) return DEFAULT_SETTINGS;
+
+        let settings: Record<string, unknown> = stored.settings ?? {};
+        for (let version = stored.version; version < SETTINGS_VERSION; version++) {
+            settings = MIGRATIONS[version]?.(settings) ?? settings;
+        }
+        const takebackPolicy = TAKEBACK_POLICIES.find(policy => policy === settings.takebackPolicy);
+        return { ...parseRules(settings), takebackPolicy: takebackPolicy ?? DEFAULT_SETTINGS.takebackPolicy };
+    } catch {
+        return DEFAULT_SETTINGS;
+    }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: SETTINGS_VERSION, settings }));
+    } catch (err) {
+        console.warn('Could not save the settings:', err);
+    }
+};
@@ -1,5 +1,8 @@
 // src/soundManager.tsx
 
+import { SquareType } from './engine/types';
+import type { BoardSquare, GameEvent } from './engine/types';
+
 // A type-safe list of all our sound effects
 export type SoundEffect = 
   | 'click'
@@ -42,4 +45,28 @@ export const playSound = (sound: SoundEffect, volume: number = 0.5) => {
     // Subsequent plays after a user click will work.
     console.log(`Audio play failed: ${error.message}. This is expected before the first user interaction.`);
   });
-};
\ No newline at end of file
+};
+
+// Plays the sounds for the events of a turn. The engine only reports what happened; this decides how it sounds.
+export const playEventSounds = (events: GameEvent[], board: Readonly<BoardSquare[]>) => {
+  events.forEach(event => {
+    switch (event.type) {
+      case 'levelUp':
+        playSound('levelUp', 0.6);
+        break;
+      case 'kill':
+        playSound('collision', 0.8);
+        break;
+      case 'wicket':
+        // Kills already played the collision sound.
+        if (event.killedBy === undefined) playSound('wicket', 0.7);
+        break;
+      case 'runsScored': {
+        const square = board[event.squareIndex];
+        if (event.source === 'square' && square.type === SquareType.Runs && square.value > 3) playSound('score');
+        if (event.source === 'extra' && event.runs > 0) playSound('extra');
+        break;
+      }
+    }
+  });
+};
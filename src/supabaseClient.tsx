@@ -1,10 +1,28 @@
 // src/supabaseClient.ts
 
-import { createClient } from '@supabase/supabase-js'
+import { createClient, FunctionsHttpError } from '@supabase/supabase-js'
 
 // Use Vite's import.meta.env object
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL!
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY!
 
 // The rest of your code is the same
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
\ No newline at end of file
+export const supabase = createClient(supabaseUrl, supabaseAnonKey)
+
+/**
+ * The message to show for an error from `supabase.functions.invoke`. Our edge functions answer
+ * failures with `{ error, code, problems }`, which is only readable from the response itself.
+ */
+export const getFunctionErrorMessage = async (error: unknown): Promise<string> => {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = await error.context.json()
+      if (typeof body?.error === 'string') {
+        return Array.isArray(body.problems) && body.problems.length > 0 ? `${body.error} ${body.problems.join(' ')}` : body.error
+      }
+    } catch {
+      // Not one of ours; fall back to the generic message.
+    }
+  }
+  return error instanceof Error ? error.message : String(error)
+}
@@ -0,0 +1,27 @@
+// supabase/functions/_shared/aiTurns.ts
+
+import { Game } from './engine/game.ts'
+import type { GameEvent } from './engine/types.ts'
+
+/**
+ * Plays every turn that needs no person: AI seats take theirs, and players who are all out
+ * or waiting to bat are skipped. Stops when it is a person's turn again or the game is over.
+ * Returns the events of the turns played.
+ */
+export const playAITurns = (game: Game): GameEvent[] => {
+  const events: GameEvent[] = []
+  while (!game.isGameOver && !game.pendingDiceResult) {
+    const player = game.getCurrentPlayer()
+    if (!game.isInPlay(player)) {
+      game.advanceToNextPlayer()
+    } else if (!player.isAI) {
+      break
+    } else if (game.shouldAIDeclare()) {
+      events.push(...game.declareInnings())
+    } else {
+      const diceResult = game.rollDice()
+      events.push(...game.playTurn(game.makeAIDecision(diceResult), diceResult))
+    }
+  }
+  return events
+}
@@ -0,0 +1,150 @@
+import { AIDifficulty, Direction, FORTRESS_SIZE, SquareType } from './types.ts';
+import type { Game } from './game.ts';
+import type { DiceResult } from './types.ts';
+
+/**
+ * How much the evaluator cares about each part of a move's outcome, measured in runs.
+ */
+export interface EvaluationWeights {
+    wicket: number; // Losing a wicket, on top of the level the token loses
+    level: number; // Each level a token gains or loses
+    kill: number; // Knocking out an opponent's token, on top of the bonus runs
+    extraTurn: number; // Another roll straight away
+    allOut: number; // Being bowled out ends the innings
+    danger: number; // Scales the expected loss from opponents who can reach our tokens
+}
+
+export const WEIGHTS: Record<AIDifficulty.Medium | AIDifficulty.Hard, EvaluationWeights> = {
+    // Medium only looks at what the move itself scores and costs.
+    [AIDifficulty.Medium]: { wicket: 8, level: 4, kill: 6, extraTurn: 3, allOut: 40, danger: 0 },
+    // Hard also weighs how likely the opponents are to knock its tokens out before its next turn.
+    [AIDifficulty.Hard]: { wicket: 8, level: 4, kill: 6, extraTurn: 3, allOut: 40, danger: 1 },
+};
+
+// How often Easy ignores the evaluator and just picks a token at random.
+const EASY_RANDOM_CHOICE_RATE = 0.6;
+
+/**
+ * Picks the token the current player should move with the given dice, looking one move ahead.
+ * Expert searches further ahead (see search.ts); here it plays like Hard.
+ * @param random A source of numbers in [0, 1), used by Easy and to break ties.
+ */
+export const chooseAIToken = (game: Game, diceResult: DiceResult, difficulty: AIDifficulty, random: () => number): number => {
+    const tokenIds = game.getCurrentPlayer().tokens.map(t => t.id);
+
+    if (difficulty === AIDifficulty.Easy && random() < EASY_RANDOM_CHOICE_RATE) {
+        return tokenIds[Math.floor(random() * tokenIds.length)];
+    }
+
+    const weights = difficulty === AIDifficulty.Easy || difficulty === AIDifficulty.Medium ? WEIGHTS[AIDifficulty.Medium] : WEIGHTS[AIDifficulty.Hard];
+    const scores = tokenIds.map(tokenId => evaluateMove(game, tokenId, diceResult, weights));
+    const bestScore = Math.max(...scores);
+    const bestTokenIds = tokenIds.filter((_, i) => scores[i] === bestScore);
+    return bestTokenIds[Math.floor(random() * bestTokenIds.length)];
+};
+
+/**
+ * Scores moving one token of the current player, by playing the move on a copy of the game.
+ * Higher is better for the current player.
+ */
+export const evaluateMove = (game: Game, tokenId: number, diceResult: DiceResult, weights: EvaluationWeights): number => {
+    const player = game.getCurrentPlayer();
+    const levelBefore = player.tokens.find(t => t.id === tokenId)!.level;
+
+    const trial = game.clone();
+    const events = trial.playTurn(tokenId, diceResult);
+    const trialPlayer = trial.players.find(p => p.id === player.id)!;
+    const levelAfter = trialPlayer.tokens.find(t => t.id === tokenId)!.level;
+
+    // Level-ups from passing home and stolen levels, or the level lost to a wicket.
+    let score = (levelAfter - levelBefore) * weights.level;
+
+    events.forEach(event => {
+        switch (event.type) {
+            case 'runsScored':
+                // Runs already include the token's level.
+                if (event.playerId === player.id) score += event.runs;
+                break;
+            case 'wicket':
+                if (event.playerId === player.id) score -= weights.wicket;
+                break;
+            case 'kill':
+                // The victim also drops back to level 1.
+                score += weights.kill + (event.victimLevel - 1) * weights.level;
+                break;
+            case 'extraTurn':
+                score += weights.extraTurn;
+                break;
+            case 'allOut':
+                if (event.playerId === player.id) score -= weights.allOut;
+                break;
+        }
+    });
+
+    if (weights.danger > 0 && !trialPlayer.isAllOut) {
+        trialPlayer.tokens.forEach(token => {
+            const valueAtRisk = weights.wicket + (token.level - 1) * weights.level;
+            score -= getKillProbability(trial, player.id, token.positionIndex) * valueAtRisk * weights.danger;
+        });
+    }
+
+    return score;
+};
+
+/**
+ * The chance that at least one opponent can land on the given square with their next roll.
+ */
+const getKillProbability = (game: Game, ownerId: number, position: number): number => {
+    const square = game.board[position];
+    if (square.type === SquareType.SafeZone) return 0;
+
+    const owner = game.players.find(p => p.id === ownerId)!;
+    if (game.getSettings().killRule === 'fortress' && owner.tokens.filter(t => t.positionIndex === position).length >= FORTRESS_SIZE) {
+        return 0;
+    }
+
+    let survivalChance = 1;
+    game.players
+        .filter(p => game.canKill(p, owner))
+        .forEach(opponent => {
+            // An opponent can only move one token per roll, so count the best-placed one.
+            const hitChance = Math.max(...opponent.tokens.map(t => getLandingChances(game, t.positionIndex).get(position) ?? 0));
+            survivalChance *= 1 - hitChance;
+        });
+    return 1 - survivalChance;
+};
+
+/**
+ * The chance of a single roll from a square ending on each other square.
+ */
+const getLandingChances = (game: Game, from: number): Map<number, number> => {
+    const allowAntiClockwise = game.getSettings().allowAntiClockwise;
+    const directions = allowAntiClockwise ? [Direction.Clockwise, Direction.AntiClockwise] : [Direction.Clockwise];
+    const chances = new Map<number, number>();
+
+    directions.forEach(direction => {
+        for (let movement = 1; movement <= 6; movement++) {
+            const path = game.getMovementPath(from, { movement, direction });
+            const destination = path[path.length - 1];
+            chances.set(destination, (chances.get(destination) ?? 0) + 1 / (6 * directions.length));
+        }
+    });
+    return chances;
+};
+
+/**
+ * Whether the current player should declare their Test match innings: once the others could
+ * only catch up by scoring faster than the match has gone so far, in the balls that are left.
+ */
+export const shouldDeclare = (game: Game): boolean => {
+    const clock = game.getTestMatchClock();
+    const batter = game.getBatter();
+    // Someone who is chasing never declares; they win as soon as they pass the target.
+    if (!clock || !batter || !game.canDeclare() || game.getChase()) return false;
+
+    const ballsBowled = game.history.filter(move => !move.extraTurn && !move.fielding).length;
+    if (ballsBowled === 0) return false;
+    const runsPerBall = game.players.reduce((total, p) => total + p.score, 0) / ballsBowled;
+    const lead = batter.score - Math.max(...game.players.filter(p => p !== batter).map(p => p.score));
+    return lead > 0 && lead >= runsPerBall * clock.ballsLeftInMatch;
+};
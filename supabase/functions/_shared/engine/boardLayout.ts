@@ -0,0 +1,152 @@
+import { SquareType, PlayerColor } from './types.ts';
+import type { BoardSquare, IPlayer } from './types.ts';
+
+// The finalized 48-block board layout, used unless a game is given a board of its own
+export const boardLayout: Readonly<BoardSquare[]> = [
+    { index: 0, coords: { row: 2, col: 4 }, type: SquareType.SafeZone, value: 0, ownerColor: PlayerColor.Blue },
+    { index: 1, coords: { row: 2, col: 3 }, type: SquareType.Runs, value: 1 },
+    { index: 2, coords: { row: 1, col: 3 }, type: SquareType.Wicket, value: 0 },
+    { index: 3, coords: { row: 0, col: 3 }, type: SquareType.Runs, value: 2 },
+    { index: 4, coords: { row: 0, col: 2 }, type: SquareType.Wicket, value: 0 },
+    { index: 5, coords: { row: 0, col: 1 }, type: SquareType.Runs, value: 4 },
+    { index: 6, coords: { row: 0, col: 0 }, type: SquareType.Runs, value: 6 },
+    { index: 7, coords: { row: 1, col: 0 }, type: SquareType.Runs, value: 2 },
+    { index: 8, coords: { row: 2, col: 0 }, type: SquareType.Runs, value: 1 },
+    { index: 9, coords: { row: 3, col: 0 }, type: SquareType.Extra, value: 0 },
+    { index: 10, coords: { row: 3, col: 1 }, type: SquareType.Runs, value: 3 },
+    { index: 11, coords: { row: 3, col: 2 }, type: SquareType.DotBall, value: 0 },
+    { index: 12, coords: { row: 4, col: 2 }, type: SquareType.SafeZone, value: 0, ownerColor: PlayerColor.Yellow },
+    { index: 13, coords: { row: 5, col: 2 }, type: SquareType.Runs, value: 1 },
+    { index: 14, coords: { row: 5, col: 1 }, type: SquareType.Wicket, value: 0 },
+    { index: 15, coords: { row: 5, col: 0 }, type: SquareType.Runs, value: 2 },
+    { index: 16, coords: { row: 6, col: 0 }, type: SquareType.Wicket, value: 0 },
+    { index: 17, coords: { row: 7, col: 0 }, type: SquareType.Runs, value: 4 },
+    { index: 18, coords: { row: 8, col: 0 }, type: SquareType.Runs, value: 6 },
+    { index: 19, coords: { row: 8, col: 1 }, type: SquareType.Runs, value: 2 },
+    { index: 20, coords: { row: 8, col: 2 }, type: SquareType.Runs, value: 1 },
+    { index: 21, coords: { row: 8, col: 3 }, type: SquareType.Extra, value: 0 },
+    { index: 22, coords: { row: 7, col: 3 }, type: SquareType.Runs, value: 3 },
+    { index: 23, coords: { row: 6, col: 3 }, type: SquareType.DotBall, value: 0 },
+    { index: 24, coords: { row: 6, col: 4 }, type: SquareType.SafeZone, value: 0, ownerColor: PlayerColor.Green },
+    { index: 25, coords: { row: 6, col: 5 }, type: SquareType.Runs, value: 1 },
+    { index: 26, coords: { row: 7, col: 5 }, type: SquareType.Wicket, value: 0 },
+    { index: 27, coords: { row: 8, col: 5 }, type: SquareType.Runs, value: 2 },
+    { index: 28, coords: { row: 8, col: 6 }, type: SquareType.Wicket, value: 0 },
+    { index: 29, coords: { row: 8, col: 7 }, type: SquareType.Runs, value: 4 },
+    { index: 30, coords: { row: 8, col: 8 }, type: SquareType.Runs, value: 6 },
+    { index: 31, coords: { row: 7, col: 8 }, type: SquareType.Runs, value: 2 },
+    { index: 32, coords: { row: 6, col: 8 }, type: SquareType.Runs, value: 1 },
+    { index: 33, coords: { row: 5, col: 8 }, type: SquareType.Extra, value: 0 },
+    { index: 34, coords: { row: 5, col: 7 }, type: SquareType.Runs, value: 3 },
+    { index: 35, coords: { row: 5, col: 6 }, type: SquareType.DotBall, value: 0 },
+    { index: 36, coords: { row: 4, col: 6 }, type: SquareType.SafeZone, value: 0, ownerColor: PlayerColor.Purple },
+    { index: 37, coords: { row: 3, col: 6 }, type: SquareType.Runs, value: 1 },
+    { index: 38, coords: { row: 3, col: 7 }, type: SquareType.Wicket, value: 0 },
+    { index: 39, coords: { row: 3, col: 8 }, type: SquareType.Runs, value: 2 },
+    { index: 40, coords: { row: 2, col: 8 }, type: SquareType.Wicket, value: 0 },
+    { index: 41, coords: { row: 1, col: 8 }, type: SquareType.Runs, value: 4 },
+    { index: 42, coords: { row: 0, col: 8 }, type: SquareType.Runs, value: 6 },
+    { index: 43, coords: { row: 0, col: 7 }, type: SquareType.Runs, value: 2 },
+    { index: 44, coords: { row: 0, col: 6 }, type: SquareType.Runs, value: 1 },
+    { index: 45, coords: { row: 0, col: 5 }, type: SquareType.Extra, value: 0 },
+    { index: 46, coords: { row: 1, col: 5 }, type: SquareType.Runs, value: 3 },
+    { index: 47, coords: { row: 2, col: 5 }, type: SquareType.DotBall, value: 0 },
+];
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Checks that each entry of a board read from a file or storage has the fields of a square,
+ * so the rest of the checks can rely on them.
+ */
+const validateSquareShapes = (squares: readonly unknown[]): string[] => {
+    const problems: string[] = [];
+    squares.forEach((entry, position) => {
+        const square = entry as Partial<Record<keyof BoardSquare, unknown>> | null;
+        const coords = square?.coords as { row?: unknown; col?: unknown } | null | undefined;
+        if (typeof square !== 'object' || square === null) {
+            problems.push(`Square ${position} is not a square.`);
+        } else if (!Number.isInteger(square.index)) {
+            problems.push(`Square ${position} has no index.`);
+        } else if (typeof coords !== 'object' || coords === null || !isNumber(coords.row) || !isNumber(coords.col)) {
+            problems.push(`Square ${position} has no row and column.`);
+        } else if (!Object.values(SquareType).includes(square.type as SquareType)) {
+            problems.push(`Square ${position} has an unknown type ${JSON.stringify(square.type)}.`);
+        } else if (!isNumber(square.value)) {
+            problems.push(`Square ${position} has no value.`);
+        } else if (square.ownerColor !== undefined && !Object.values(PlayerColor).includes(square.ownerColor as PlayerColor)) {
+            problems.push(`Square ${position} is owned by an unknown colour ${JSON.stringify(square.ownerColor)}.`);
+        }
+    });
+    return problems;
+};
+
+/**
+ * Checks that a board can be played on: its squares are numbered 0, 1, 2... in order, no two
+ * share a grid cell, and every player colour owns exactly one SafeZone to start from.
+ * Boards read from a file or storage can be passed in as they are: malformed squares are
+ * reported rather than thrown over.
+ * @param players Players already placed on the board, whose home bases must be their SafeZone.
+ * @returns A description of each problem found; empty if the board is valid.
+ */
+export const validateBoard = (board: readonly BoardSquare[], players: readonly Pick<IPlayer, 'color' | 'homeBaseIndex'>[] = []): string[] => {
+    if (board.length === 0) {
+        return ['The board has no squares.'];
+    }
+    const shapeProblems = validateSquareShapes(board);
+    if (shapeProblems.length > 0) {
+        return shapeProblems;
+    }
+
+    const problems: string[] = [];
+
+    board.forEach((square, position) => {
+        if (square.index !== position) {
+            problems.push(`Square ${position} is numbered ${square.index}; squares must be numbered 0 to ${board.length - 1} in order.`);
+        }
+        if (square.ownerColor && square.type !== SquareType.SafeZone) {
+            problems.push(`Square ${position} has an owner but is not a SafeZone.`);
+        }
+        if (square.type === SquareType.Runs && !(Number.isInteger(square.value) && square.value > 0)) {
+            problems.push(`Runs square ${position} must be worth a whole number of runs above 0.`);
+        }
+    });
+
+    const seenCoords = new Map<string, number>();
+    board.forEach(square => {
+        const { row, col } = square.coords;
+        if (!Number.isInteger(row) || !Number.isInteger(col) || row < 0 || col < 0) {
+            problems.push(`Square ${square.index} has invalid coordinates (${row}, ${col}).`);
+            return;
+        }
+        const key = `${row},${col}`;
+        const other = seenCoords.get(key);
+        if (other !== undefined) {
+            problems.push(`Squares ${other} and ${square.index} are both at row ${row}, column ${col}.`);
+        }
+        seenCoords.set(key, square.index);
+    });
+
+    Object.values(PlayerColor).forEach(color => {
+        const homes = board.filter(square => square.type === SquareType.SafeZone && square.ownerColor === color);
+        if (homes.length !== 1) {
+            problems.push(`${color} must own exactly one SafeZone, but owns ${homes.length}.`);
+        }
+    });
+
+    players.forEach(player => {
+        const home = board[player.homeBaseIndex];
+        if (home?.type !== SquareType.SafeZone || home.ownerColor !== player.color) {
+            problems.push(`${player.color}'s home base ${player.homeBaseIndex} is not the SafeZone they own.`);
+        }
+    });
+
+    return problems;
+};
+
+/**
+ * The index of the SafeZone a colour starts from. Assumes the board is valid.
+ */
+export const getHomeBaseIndex = (board: readonly BoardSquare[], color: PlayerColor): number => {
+    return board.find(square => square.type === SquareType.SafeZone && square.ownerColor === color)!.index;
+};
@@ -0,0 +1,230 @@
+import { Direction, SquareType } from './types.ts';
+import type { Game } from './game.ts';
+import type { MoveRecord } from './types.ts';
+
+/**
+ * One line of ball-by-ball commentary.
+ */
+export interface CommentaryLine {
+    moveIndex: number; // The move in the history this line is about; -1 for none
+    playerId: number | null; // Whose colour the line is shown in
+    kind: 'runs' | 'boundary' | 'dot' | 'extra' | 'wicket' | 'kill' | 'levelUp' | 'milestone' | 'innings' | 'result';
+    text: string;
+}
+
+// What a phrasing can talk about. Names are player colours, so "Blue", not "Player 1 (Blue)".
+interface Call {
+    batter: string;
+    victim: string;
+    runs: number;
+    value: number; // The Runs square's value
+    level: string; // "3x batter", or just "batter" at level 1
+    fielder: string;
+}
+
+type Phrasing = (call: Call) => string;
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const SIXES: Phrasing[] = [
+    c => `${c.batter}'s ${c.level} dances down for a SIX — ${plural(c.runs, 'run')}!`,
+    c => `That's out of the ground! ${c.batter} clears the ropes for ${plural(c.runs, 'run')}.`,
+    c => `Maximum! ${c.batter}'s ${c.level} sends it into the stands — ${plural(c.runs, 'run')}.`,
+    c => `Huge hit from ${c.batter}! SIX, and that's ${plural(c.runs, 'run')}.`,
+];
+
+const FOURS: Phrasing[] = [
+    c => `Cracking drive from ${c.batter}'s ${c.level} — FOUR, ${plural(c.runs, 'run')}.`,
+    c => `${c.batter} threads the gap and it races away to the boundary — ${plural(c.runs, 'run')}.`,
+    c => `FOUR! ${c.batter} finds the rope — ${plural(c.runs, 'run')}.`,
+    c => `No need to run those. ${c.batter}'s ${c.level} pierces the field for ${plural(c.runs, 'run')}.`,
+];
+
+const RUNS: Phrasing[] = [
+    c => `${c.batter} nudges it away for ${plural(c.runs, 'run')}.`,
+    c => `${c.batter}'s ${c.level} works it into the gap — ${plural(c.runs, 'run')}.`,
+    c => `Good running from ${c.batter}, ${plural(c.runs, 'run')} taken.`,
+    c => `${c.batter} pushes for ${c.value} off the square, ${plural(c.runs, 'run')} in all.`,
+];
+
+const DOT_BALLS: Phrasing[] = [
+    c => `Dot ball. ${c.batter} can't get it away.`,
+    c => `Well bowled — ${c.batter} is kept quiet.`,
+    c => `${c.batter} defends solidly. No run.`,
+    c => `Straight to the fielder. Nothing for ${c.batter}.`,
+];
+
+const SAFE_ZONES: Phrasing[] = [
+    c => `${c.batter} tucks in at a safe square.`,
+    c => `${c.batter} plays it safe and stays put.`,
+    c => `Nothing doing for ${c.batter}, safely home and dry.`,
+];
+
+const EXTRAS: Phrasing[] = [
+    c => `Wide! ${c.batter} gets another ball.`,
+    c => `No ball, and a free hit for ${c.batter}.`,
+    c => `The bowler oversteps — ${c.batter} goes again.`,
+];
+
+const WICKETS: Phrasing[] = [
+    c => `OUT! ${c.batter}'s ${c.level} has to go.`,
+    c => `Bowled! ${c.batter} loses a wicket.`,
+    c => `Gone! ${c.batter} walks back to the pavilion.`,
+    c => `That's a wicket — ${c.batter} is caught in the deep.`,
+];
+
+const KILLS: Phrasing[] = [
+    c => `Knocked over! ${c.victim}'s token sent back to the pavilion by ${c.fielder}.`,
+    c => `Run out! ${c.fielder} catches ${c.victim} short of the crease.`,
+    c => `${c.fielder} pounces — ${c.victim} has to start again.`,
+    c => `Direct hit from ${c.fielder}! ${c.victim}'s token is on its way home.`,
+];
+
+const LEVEL_UPS: Phrasing[] = [
+    c => `${c.batter}'s batter is seeing it like a beach ball — up to ${c.level}!`,
+    c => `${c.batter} moves up a gear: now a ${c.level}.`,
+    c => `Lap done. ${c.batter}'s token comes round as a ${c.level}.`,
+];
+
+// Milestones are called for a player's fifty, and then every hundred.
+const isMilestone = (runs: number) => runs === 50 || (runs > 0 && runs % 100 === 0);
+
+const describeMilestone = (name: string, runs: number) => {
+    if (runs === 50) return `FIFTY up for ${name}! Raise the bat.`;
+    if (runs === 100) return `CENTURY! ${name} reaches three figures. What an innings!`;
+    return `${runs} up for ${name}! A monumental effort.`;
+};
+
+/**
+ * Picks one of the phrasings for a move. The choice depends only on the move itself, not on the
+ * game's seed, which online games never store. So everyone watching the game, every reload of
+ * it and every replay hears the same commentary.
+ */
+const pick = (phrasings: Phrasing[], move: MoveRecord, moveIndex: number, salt = 0): Phrasing => {
+    const { movement, direction } = move.diceResult;
+    const hash = moveIndex * 7 + move.playerId * 13 + movement * 5 + (direction === Direction.Clockwise ? 0 : 11) + salt * 3;
+    return phrasings[hash % phrasings.length];
+};
+
+const describeLanding = (game: Game, move: MoveRecord, moveIndex: number, call: Call): CommentaryLine | null => {
+    const square = game.board[move.to];
+    const line = (kind: CommentaryLine['kind'], phrasings: Phrasing[]): CommentaryLine =>
+        ({ moveIndex, playerId: move.playerId, kind, text: pick(phrasings, move, moveIndex)(call) });
+
+    switch (square.type) {
+        case SquareType.Runs:
+            if (square.value === 6) return line('boundary', SIXES);
+            if (square.value === 4) return line('boundary', FOURS);
+            return line('runs', RUNS);
+        case SquareType.Wicket:
+            return line('wicket', WICKETS);
+        case SquareType.Extra:
+            return line('extra', EXTRAS);
+        case SquareType.DotBall:
+            return line('dot', DOT_BALLS);
+        case SquareType.SafeZone:
+            return line('dot', SAFE_ZONES);
+        default:
+            return null;
+    }
+};
+
+/**
+ * Builds the commentary for the whole game so far from its move history: what each turn
+ * landed on, kills, level-ups, milestones, the end of innings and the result.
+ * Fielding turns only get a line when they knock someone out.
+ */
+export const buildCommentary = (game: Game): CommentaryLine[] => {
+    const nameOf = (playerId: number) => game.players.find(p => p.id === playerId)?.color ?? `Player ${playerId}`;
+    const format = game.getFormat();
+    const runs = new Map<number, number>(game.players.map(p => [p.id, 0]));
+    const wickets = new Map<number, number>(game.players.map(p => [p.id, 0]));
+    const lines: CommentaryLine[] = [];
+    let inSuperOver = false;
+
+    const closeInnings = (moveIndex: number) => {
+        // Test match innings are recorded by the game, declarations included.
+        game.innings.filter(i => i.endedAfterMove === moveIndex + 1).forEach(innings => {
+            const name = nameOf(innings.playerId);
+            const text = innings.declared
+                ? `${name} declare at ${innings.runs}-${innings.wickets}.`
+                : `${name} are all out for ${innings.runs}.`;
+            lines.push({ moveIndex, playerId: innings.playerId, kind: 'innings', text });
+        });
+    };
+
+    closeInnings(-1);
+    game.history.forEach((move, moveIndex) => {
+        const batter = nameOf(move.playerId);
+        const call: Call = {
+            batter,
+            victim: '',
+            runs: move.runs,
+            value: game.board[move.to].value,
+            level: move.level > 1 ? `${move.level}x batter` : 'batter',
+            fielder: batter,
+        };
+
+        if (move.superOver && !inSuperOver) {
+            lines.push({ moveIndex, playerId: null, kind: 'innings', text: 'We are all square — it goes to a SUPER OVER!' });
+        }
+        inSuperOver = !!move.superOver;
+
+        if (!move.fielding) {
+            const landing = describeLanding(game, move, moveIndex, call);
+            if (landing) lines.push(landing);
+        }
+
+        move.kills.forEach((kill, killIndex) => {
+            const text = pick(KILLS, move, moveIndex, killIndex + 1)({ ...call, victim: nameOf(kill.playerId) });
+            lines.push({ moveIndex, playerId: move.playerId, kind: 'kill', text });
+        });
+
+        // A token that levelled up and then lost its wicket is back to level 1.
+        if (move.levelUp && move.level > 1) {
+            lines.push({ moveIndex, playerId: move.playerId, kind: 'levelUp', text: pick(LEVEL_UPS, move, moveIndex)(call) });
+        }
+
+        // Super Over runs and wickets do not count towards the innings.
+        if (move.superOver) return;
+
+        const before = runs.get(move.playerId)!;
+        const after = before + move.runs;
+        runs.set(move.playerId, after);
+        for (let milestone = before + 1; milestone <= after; milestone++) {
+            if (isMilestone(milestone)) {
+                lines.push({ moveIndex, playerId: move.playerId, kind: 'milestone', text: describeMilestone(batter, milestone) });
+            }
+        }
+
+        if (format.testMatch) {
+            closeInnings(moveIndex);
+            return;
+        }
+
+        // Everyone else's innings ends when their wickets run out.
+        const lostWickets = [
+            ...Array(move.wickets).fill(move.playerId),
+            ...move.kills.map(kill => kill.playerId),
+        ];
+        lostWickets.forEach(playerId => {
+            const lost = wickets.get(playerId)! + 1;
+            wickets.set(playerId, lost);
+            if (lost === format.wicketsPerInnings) {
+                lines.push({ moveIndex, playerId, kind: 'innings', text: `${nameOf(playerId)} are all out for ${runs.get(playerId)}.` });
+            }
+        });
+    });
+
+    if (game.isGameOver) {
+        const result = game.getResult();
+        const winners = result.winnerIds.map(nameOf);
+        let text = `That's the match! ${winners[0]} win.`;
+        if (result.decidedBy === 'superOver') text = `${winners[0]} hold their nerve and win the Super Over!`;
+        if (result.decidedBy === 'tie') text = `It's a tie! Nothing to separate ${winners.join(' and ')}.`;
+        if (result.decidedBy === 'draw') text = 'Stumps on the final day. The match is drawn.';
+        lines.push({ moveIndex: game.history.length - 1, playerId: result.winnerIds[0] ?? null, kind: 'result', text });
+    }
+
+    return lines;
+};
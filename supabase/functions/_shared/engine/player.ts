@@ -1,11 +1,11 @@
-import { PlayerColor } from './types';
-import type { IPlayer, PlayerToken } from './types';
+import { PlayerColor } from './types.ts';
+import type { IPlayer, PlayerToken } from './types.ts';
 
 export class Player implements IPlayer {
     public score: number = 0;
     public wickets: number = 0;
     public turnsRemaining: number | null;
-    public tokens: [PlayerToken, PlayerToken];
+    public tokens: PlayerToken[];
     public isAllOut: boolean = false;
     public readonly isAI: boolean;
 
@@ -15,28 +15,31 @@ export class Player implements IPlayer {
         public readonly color: PlayerColor,
         public readonly homeBaseIndex: number,
         initialTurns: number | null,
-        isAI: boolean
+        isAI: boolean,
+        tokenCount: number = 2
     ) {
         this.turnsRemaining = initialTurns;
         this.isAI = isAI;
-        this.tokens = [
-            { id: 1, positionIndex: homeBaseIndex, level: 1 },
-            { id: 2, positionIndex: homeBaseIndex, level: 1 },
-        ];
+        // Tokens are numbered from 1 and all start at home.
+        this.tokens = Array.from({ length: tokenCount }, (_, i) => ({ id: i + 1, positionIndex: homeBaseIndex, level: 1 }));
     }
 
     public addScore(runs: number): void {
         this.score += runs;
-        console.log(`${this.name} scores ${runs}. Total score: ${this.score}`);
     }
 
-    public takeWicket(): void {
+    /**
+     * Records a wicket against the player.
+     * @param wicketsPerInnings The wickets it takes to bowl the player all out.
+     * @returns {boolean} - True if this wicket bowled the player all out.
+     */
+    public takeWicket(wicketsPerInnings: number): boolean {
         this.wickets++;
-        console.log(`WICKET! ${this.name} loses a wicket. Total wickets: ${this.wickets}/10`);
-        if (this.wickets >= 10) {
+        if (this.wickets >= wicketsPerInnings && !this.isAllOut) {
             this.isAllOut = true;
-            console.log(`${this.name} is All Out!`);
+            return true;
         }
+        return false;
     }
 
     public returnTokenToHome(tokenId: number): void {
@@ -44,7 +47,6 @@ export class Player implements IPlayer {
         if (token) {
             token.positionIndex = this.homeBaseIndex;
             token.level = 1;
-            console.log(`${this.name}'s token ${tokenId} returns to home base. Its level is reset to 1.`);
         }
     }
 
@@ -71,24 +73,27 @@ export class Player implements IPlayer {
             score: this.score,
             wickets: this.wickets,
             turnsRemaining: this.turnsRemaining,
-            tokens: this.tokens,
+            tokens: this.tokens.map(t => ({ ...t })), // Copies, so the snapshot does not change with the game
             isAllOut: this.isAllOut,
         };
     }
 
     /**
-     * Creates a Player instance from a plain JSON object.
+     * Creates a Player instance from a plain JSON object. The game state it came from
+     * must have passed `validateGameState`.
      */
-    public static fromJSON(data: any): Player {
+    public static fromJSON(data: PlayerSnapshot): Player {
         // Create a new player instance using the constructor for essential properties
         const player = new Player(data.id, data.name, data.color, data.homeBaseIndex, data.turnsRemaining, data.isAI);
         
         // Manually assign the stateful properties
         player.score = data.score;
         player.wickets = data.wickets;
-        player.tokens = data.tokens;
+        player.tokens = data.tokens.map(t => ({ ...t }));
         player.isAllOut = data.isAllOut;
 
         return player;
     }
-}
\ No newline at end of file
+}
+
+export type PlayerSnapshot = ReturnType<Player['toJSON']>;
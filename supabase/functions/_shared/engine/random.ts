@@ -0,0 +1,48 @@
+/**
+ * A small seedable random number generator (mulberry32).
+ * The whole state is the seed plus the number of values drawn so far (the cursor),
+ * so a game can be saved and replayed exactly from those two numbers.
+ */
+export class SeededRandom {
+    private state: number;
+    private draws: number;
+
+    constructor(public readonly seed: number, cursor: number = 0) {
+        this.draws = cursor;
+        // mulberry32 advances its state by a fixed step on every draw, so we can jump straight to the cursor.
+        this.state = (seed + Math.imul(cursor, 0x6D2B79F5)) | 0;
+    }
+
+    /**
+     * Returns the next number in [0, 1), like Math.random().
+     */
+    public next(): number {
+        this.draws++;
+        this.state = (this.state + 0x6D2B79F5) | 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * The number of values drawn since the generator was seeded.
+     */
+    public get cursor(): number {
+        return this.draws;
+    }
+
+    public toJSON() {
+        return { seed: this.seed, cursor: this.cursor };
+    }
+
+    public static fromJSON(data: { seed: number; cursor: number }): SeededRandom {
+        return new SeededRandom(data.seed, data.cursor);
+    }
+}
+
+/**
+ * Picks a fresh 32-bit seed for a new game. It comes from the platform's secure random source,
+ * so the server's seeds cannot be guessed from earlier ones.
+ */
+export const createSeed = (): number => crypto.getRandomValues(new Uint32Array(1))[0];
@@ -0,0 +1,69 @@
+// supabase/functions/_shared/errors.ts
+
+import { corsHeaders } from './cors.ts'
+import { GameStateError } from './engine/schema.ts'
+
+// What went wrong, for clients to act on without parsing the message.
+export type ErrorCode =
+  | 'BAD_REQUEST'        // The request body is missing something or is malformed
+  | 'UNAUTHORIZED'       // No signed-in user
+  | 'FORBIDDEN'          // Signed in, but not allowed to do this, e.g. starting someone else's game
+  | 'NOT_FOUND'          // No game with that id or code
+  | 'CONFLICT'           // The game is not in a state that allows this (started, full, over)
+  | 'NOT_YOUR_TURN'
+  | 'INVALID_MOVE'       // The action breaks the rules, e.g. moving before rolling
+  | 'INVALID_GAME_STATE' // The stored game state cannot be loaded
+  | 'INTERNAL'
+
+/**
+ * An error to send back to the client as a structured response.
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly code: ErrorCode,
+    message: string,
+    public readonly status: number = 400,
+    public readonly problems: string[] = [],
+  ) {
+    super(message)
+    this.name = 'ApiError'
+  }
+}
+
+/**
+ * Turns anything thrown while handling a request into a JSON error response:
+ * `{ error: message, code, problems }`. `error` stays a plain message for older clients.
+ */
+export const errorResponse = (error: unknown): Response => {
+  let apiError: ApiError
+  if (error instanceof ApiError) {
+    apiError = error
+  } else if (error instanceof GameStateError) {
+    apiError = new ApiError('INVALID_GAME_STATE', 'The saved game state is damaged and cannot be loaded.', 422, error.problems)
+  } else {
+    console.error(error) // Unexpected, so log it for debugging
+    const message = error instanceof Error ? error.message : 'Something went wrong.'
+    apiError = new ApiError('INTERNAL', message, 500)
+  }
+
+  return new Response(JSON.stringify({ error: apiError.message, code: apiError.code, problems: apiError.problems }), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status: apiError.status,
+  })
+}
+
+/**
+ * Reads the JSON body of a request, which must be an object.
+ */
+export const readJsonBody = async (req: Request): Promise<Record<string, unknown>> => {
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    throw new ApiError('BAD_REQUEST', 'The request body must be JSON.')
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ApiError('BAD_REQUEST', 'The request body must be a JSON object.')
+  }
+  return body as Record<string, unknown>
+}
@@ -0,0 +1,30 @@
+// supabase/functions/_shared/gameState.ts
+
+import { Game } from './engine/game.ts'
+import type { GameSnapshot } from './engine/game.ts'
+
+// A game state as `games.game_state` holds it: the snapshot without its dice generator, and how
+// many moves have been saved over it. States saved before the count was kept have none.
+export type StoredGameState = Omit<GameSnapshot, 'random'> & { random?: GameSnapshot['random']; revision?: number }
+
+/**
+ * The state to save in `games.game_state`, which every player can read. The dice generator is
+ * left out: from its seed and cursor anyone could work out the server's next rolls. Loading the
+ * state gives the game a fresh seed, so each request rolls from new entropy and only the rolls
+ * themselves are recorded, in the history.
+ */
+export const toStoredState = (game: Game, revision = 0): StoredGameState => {
+  const state: StoredGameState = game.toJSON()
+  delete state.random
+  state.revision = revision
+  return state
+}
+
+/**
+ * The revision of a stored state, or null if it was saved before revisions were kept.
+ * A save that must not overwrite someone else's checks it is still the one it read.
+ */
+export const readRevision = (state: unknown): number | null => {
+  const revision = (state as StoredGameState | null)?.revision
+  return Number.isInteger(revision) ? revision as number : null
+}
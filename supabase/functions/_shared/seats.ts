@@ -0,0 +1,32 @@
+// supabase/functions/_shared/seats.ts
+
+import { ApiError } from './errors.ts'
+
+// A person in a game, as the `players` column of the games table stores them
+export type SeatInfo = {
+  userId: string
+  id: number // The id of their player in the game state
+  color: string
+  ready?: boolean // Only used while the game is waiting to start
+}
+
+const isSeat = (seat: unknown): seat is SeatInfo => {
+  const { userId, id, color, ready } = (seat ?? {}) as Partial<SeatInfo>
+  return typeof userId === 'string' && Number.isInteger(id) && typeof color === 'string' &&
+    (ready === undefined || typeof ready === 'boolean')
+}
+
+/**
+ * The people seated in a game, read from its `players` column. Throws an INVALID_GAME_STATE
+ * error listing the seats that are damaged.
+ */
+export const readSeats = (players: unknown): SeatInfo[] => {
+  if (!Array.isArray(players)) {
+    throw new ApiError('INVALID_GAME_STATE', 'The game has no player list.', 422)
+  }
+  const problems = players.flatMap((seat, index) => isSeat(seat) ? [] : [`players[${index}] needs a userId, id and color.`])
+  if (problems.length > 0) {
+    throw new ApiError('INVALID_GAME_STATE', 'The game\'s player list is damaged.', 422, problems)
+  }
+  return players as SeatInfo[]
+}
@@ -3,22 +3,22 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '_shared/cors.ts'
-import { Game } from '_shared/game.ts'
-import { Player } from '_shared/player.ts'
-import { PlayerColor } from '_shared/types.ts'
+import { ApiError, errorResponse, readJsonBody } from '_shared/errors.ts'
+import { toStoredState } from '_shared/gameState.ts'
+import { readSeats } from '_shared/seats.ts'
+import type { SeatInfo } from '_shared/seats.ts'
+import { Game } from '_shared/engine/game.ts'
+import type { Player } from '_shared/engine/player.ts'
 
-// Helper function to get the next available color
-function getNextAvailableColor(existingPlayers: any[]): PlayerColor {
+/**
+ * The first seat of the game nobody has taken yet. The seats and their colours were set by
+ * the host when the game was created, so the `players` list and the game state always agree.
+ */
+function getNextOpenSeat(game: Game, existingPlayers: SeatInfo[]): Player {
     const colorsInUse = new Set(existingPlayers.map(p => p.color));
-    const allColors = [PlayerColor.Blue, PlayerColor.Yellow, PlayerColor.Green, PlayerColor.Purple];
-    
-    for (const color of allColors) {
-        if (!colorsInUse.has(color)) {
-            return color;
-        }
-    }
-    // Default or throw error if no colors are available
-    throw new Error('Game is full. No available colors.');
+    const seat = game.players.find(p => !colorsInUse.has(p.color));
+    if (!seat) throw new ApiError('CONFLICT', 'Game is full. No available seats.', 409);
+    return seat;
 }
 
 
@@ -28,8 +28,13 @@ serve(async (req) => {
   }
 
   try {
-    const { gameCode } = await req.json();
-    if (!gameCode) throw new Error('Game code is required');
+    const { gameCode, spectate = false } = await readJsonBody(req);
+    if (typeof gameCode !== 'string' || gameCode.trim() === '') {
+        throw new ApiError('BAD_REQUEST', 'Game code is required.');
+    }
+    if (typeof spectate !== 'boolean') {
+        throw new ApiError('BAD_REQUEST', 'spectate must be true or false.');
+    }
 
     // Create a Supabase client with the user's authorization
     const userSupabaseClient = createClient(
@@ -38,7 +43,7 @@ serve(async (req) => {
       { global: { headers: { Authorization: req.headers.get('Authorization')! } } }
     )
     const { data: { user } } = await userSupabaseClient.auth.getUser();
-    if (!user) throw new Error('Unauthorized');
+    if (!user) throw new ApiError('UNAUTHORIZED', 'You must be signed in.', 401);
 
     // Create a service role client to bypass RLS for the update
     const adminSupabaseClient = createClient(
@@ -50,60 +55,63 @@ serve(async (req) => {
     const { data: gameData, error: fetchError } = await adminSupabaseClient
       .from('games')
       .select('id, players, game_state, status')
-      .eq('game_code', gameCode.toUpperCase())
+      .eq('game_code', gameCode.trim().toUpperCase())
       .single();
     
-    if (fetchError) throw new Error('Game not found.');
-    if (gameData.status !== 'waiting') throw new Error('Game has already started.');
+    if (fetchError || !gameData) throw new ApiError('NOT_FOUND', 'Game not found.', 404);
+    const seatedPlayers = readSeats(gameData.players);
+
+    // 2. Spectators watch without taking a seat, so any game can be watched, even a full or started one
+    if (spectate) {
+      return new Response(JSON.stringify({ gameId: gameData.id, status: gameData.status }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
 
-    // 2. Check if the user is already in the game
-    const isAlreadyPlayer = gameData.players.some((p: any) => p.userId === user.id);
+    // 3. Check if the user is already in the game
+    const isAlreadyPlayer = seatedPlayers.some(p => p.userId === user.id);
     if (isAlreadyPlayer) {
-      // If they are already in, just return the game ID so they can proceed
-      return new Response(JSON.stringify({ gameId: gameData.id }), {
+      // If they are already in, just return the game so they can go back to the waiting room, or the game itself
+      return new Response(JSON.stringify({ gameId: gameData.id, status: gameData.status }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
+    if (gameData.status !== 'waiting') throw new ApiError('CONFLICT', 'Game has already started.', 409);
 
-    // 3. Add the new player
-    const nextColor = getNextAvailableColor(gameData.players);
-    const newPlayerInfo = {
+    // 4. Seat the new player. A damaged state is rejected with its problems listed.
+    const game = Game.fromJSON(gameData.game_state);
+    const seat = getNextOpenSeat(game, seatedPlayers);
+    const newPlayerInfo: SeatInfo = {
         userId: user.id,
-        id: gameData.players.length + 1, // Simple ID assignment
-        color: nextColor
+        id: seat.id,
+        color: seat.color,
+        ready: false,
     };
-    const updatedPlayersArray = [...gameData.players, newPlayerInfo];
+    const updatedPlayersArray = [...seatedPlayers, newPlayerInfo];
 
-    // 4. Update the game_state object
-    const game = Game.fromJSON(gameData.game_state);
-    // Find the placeholder player of the correct color and update their info
-    const playerToUpdate = game.players.find(p => p.color === nextColor);
-    if (playerToUpdate) {
-        playerToUpdate.name = `Player ${newPlayerInfo.id} (${newPlayerInfo.color})`;
-        // You could add other properties here if needed
-    }
-    
-    // 5. Save the updated state and players array
+    // A person now sits here, so no AI fills the seat in.
+    const gameState = toStoredState(game);
+    gameState.players = gameState.players.map(p => p.id === seat.id ? { ...p, isAI: false } : p);
+
+    // 5. Save the updated state and players array, unless the game started or someone else
+    // joined since we read it. Two players joining at once would otherwise take the same seat.
     const { data: updatedGame, error: updateError } = await adminSupabaseClient
       .from('games')
-      .update({
-          players: updatedPlayersArray,
-          game_state: game.toJSON()
-      })
+      .update({ players: updatedPlayersArray, game_state: gameState })
       .eq('id', gameData.id)
-      .select('id')
-      .single();
+      .eq('status', 'waiting')
+      .eq('players', JSON.stringify(seatedPlayers))
+      .select('id, status')
+      .maybeSingle();
 
     if (updateError) throw updateError;
+    if (!updatedGame) throw new ApiError('CONFLICT', 'The game changed while you were joining. Try again.', 409);
     
-    return new Response(JSON.stringify({ gameId: updatedGame.id }), {
+    return new Response(JSON.stringify({ gameId: updatedGame.id, status: updatedGame.status }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       status: 200,
     })
-  } catch (error: any) {
-    return new Response(JSON.stringify({ error: error.message }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 400,
-    })
+  } catch (error) {
+    return errorResponse(error);
   }
 })
\ No newline at end of file
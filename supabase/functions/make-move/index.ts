@@ -3,7 +3,12 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '_shared/cors.ts'
-import { Game } from '_shared/game.ts'
+import { ApiError, errorResponse, readJsonBody } from '_shared/errors.ts'
+import { readRevision, toStoredState } from '_shared/gameState.ts'
+import { readSeats } from '_shared/seats.ts'
+import { playAITurns } from '_shared/aiTurns.ts'
+import { Game } from '_shared/engine/game.ts'
+import type { GameEvent } from '_shared/engine/types.ts'
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -12,9 +17,12 @@ serve(async (req) => {
 
   try {
     // 1. Get user and request body
-    const { gameId, action, payload } = await req.json();
-    if (!gameId || !action || !payload) {
-        throw new Error('Missing gameId, action, or payload');
+    const { gameId, action, payload } = await readJsonBody(req);
+    if (typeof gameId !== 'string' || gameId === '') {
+        throw new ApiError('BAD_REQUEST', 'gameId is required.');
+    }
+    if (action !== 'ROLL_DICE' && action !== 'PLAY_TURN' && action !== 'DECLARE') {
+        throw new ApiError('BAD_REQUEST', `Unknown action: ${JSON.stringify(action)}. Use ROLL_DICE, PLAY_TURN or DECLARE.`);
     }
 
     // 2. Create clients
@@ -24,7 +32,7 @@ serve(async (req) => {
       { global: { headers: { Authorization: req.headers.get('Authorization')! } } }
     )
     const { data: { user } } = await userSupabaseClient.auth.getUser();
-    if (!user) throw new Error('Unauthorized');
+    if (!user) throw new ApiError('UNAUTHORIZED', 'You must be signed in.', 401);
 
     const adminSupabaseClient = createClient(
       Deno.env.get('SUPABASE_URL')!,
@@ -34,49 +42,83 @@ serve(async (req) => {
     // 3. Fetch the CURRENT game state
     const { data: gameData, error: fetchError } = await adminSupabaseClient
       .from('games')
-      .select('game_state, players')
+      .select('game_state, players, status')
       .eq('id', gameId)
       .single();
     
-    if (fetchError) throw fetchError;
+    if (fetchError || !gameData) throw new ApiError('NOT_FOUND', 'Game not found.', 404);
+    // A waiting game's state is only the host's setup, so nothing can be played on it yet.
+    if (gameData.status !== 'in_progress') {
+        throw new ApiError('CONFLICT', 'The game has not started yet.', 409);
+    }
+    const seatedPlayers = readSeats(gameData.players);
 
-    // 4. Deserialize and validate the move
+    // 4. Deserialize and validate the move. A damaged state is rejected with its problems listed.
     const game = Game.fromJSON(gameData.game_state);
     const currentPlayerInGame = game.getCurrentPlayer();
-    const playerMakingRequest = gameData.players.find((p: any) => p.userId === user.id);
+    const playerMakingRequest = seatedPlayers.find(p => p.userId === user.id);
     
     // Crucial check: Is it actually this player's turn?
     if (!playerMakingRequest || currentPlayerInGame.id !== playerMakingRequest.id) {
-        throw new Error("It's not your turn!");
+        throw new ApiError('NOT_YOUR_TURN', "It's not your turn!", 409);
+    }
+
+    if (game.isGameOver) {
+        throw new ApiError('CONFLICT', 'The game is already over.', 409);
     }
 
     // 5. Perform the action
-    if (action === 'PLAY_TURN') {
-        const { tokenId, diceResult } = payload;
-        game.playTurn(tokenId, diceResult); // Use our existing game logic!
-    } else {
-        throw new Error(`Unknown action: ${action}`);
+    // The dice are always rolled here, never by the client. The roll is stored in the
+    // game state until the player spends it on a token with PLAY_TURN.
+    let diceResult = game.pendingDiceResult;
+    let events: GameEvent[] = [];
+    if (action === 'ROLL_DICE') {
+        if (diceResult) throw new ApiError('INVALID_MOVE', 'You have already rolled. Choose a token to move.');
+        diceResult = game.rollDice();
+        game.pendingDiceResult = diceResult;
+    } else if (action === 'PLAY_TURN') {
+        if (!diceResult) throw new ApiError('INVALID_MOVE', 'You must roll the dice first.');
+        const tokenId = (payload as { tokenId?: unknown } | undefined)?.tokenId;
+        if (!Number.isInteger(tokenId)) {
+            throw new ApiError('BAD_REQUEST', 'PLAY_TURN needs payload.tokenId.');
+        }
+        if (!currentPlayerInGame.tokens.some(t => t.id === tokenId)) {
+            throw new ApiError('INVALID_MOVE', `You have no token ${tokenId}.`);
+        }
+        game.pendingDiceResult = null;
+        events = game.playTurn(tokenId as number, diceResult); // Use our existing game logic!
+    } else if (action === 'DECLARE') {
+        if (!game.canDeclare()) throw new ApiError('INVALID_MOVE', 'You can only declare your own Test match innings, before rolling.');
+        events = game.declareInnings();
     }
 
-    // 6. Serialize the NEW game state and update the database
-    const newGameState = game.toJSON();
-    const { error: updateError } = await adminSupabaseClient
+    // 6. AI fill-ins play on the server, so the turn comes back round to a person
+    const aiEvents = playAITurns(game);
+
+    // 7. Serialize the NEW game state and update the database, unless another request saved over
+    // the state we read. Two rolls at once would otherwise both succeed, and the player could end
+    // up moving by a roll they never saw.
+    const revision = readRevision(gameData.game_state);
+    const newGameState = toStoredState(game, (revision ?? 0) + 1);
+    const update = adminSupabaseClient
       .from('games')
       .update({ game_state: newGameState })
       .eq('id', gameId);
+    const { data: savedGame, error: updateError } = await (revision === null
+      ? update.is('game_state->>revision', null)
+      : update.eq('game_state->>revision', String(revision)))
+      .select('id')
+      .maybeSingle();
 
     if (updateError) throw updateError;
+    if (!savedGame) throw new ApiError('CONFLICT', 'The game changed while your move was being made. Try again.', 409);
       
-    return new Response(JSON.stringify({ success: true }), {
+    return new Response(JSON.stringify({ success: true, diceResult, events, aiEvents }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       status: 200,
     })
 
-  } catch (error: any) {
-    console.error(error); // Log the error for debugging
-    return new Response(JSON.stringify({ error: error.message }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 400,
-    })
+  } catch (error) {
+    return errorResponse(error);
   }
 })
\ No newline at end of file
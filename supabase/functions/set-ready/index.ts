@@ -0,0 +1,72 @@
+// supabase/functions/set-ready/index.ts
+
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '_shared/cors.ts'
+import { ApiError, errorResponse, readJsonBody } from '_shared/errors.ts'
+import { readSeats } from '_shared/seats.ts'
+
+// Marks the signed-in player as ready, or not, in a game that is still waiting to start.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { gameId, ready } = await readJsonBody(req);
+    if (typeof gameId !== 'string' || gameId === '') {
+        throw new ApiError('BAD_REQUEST', 'gameId is required.');
+    }
+    if (typeof ready !== 'boolean') {
+        throw new ApiError('BAD_REQUEST', 'ready must be true or false.');
+    }
+
+    const userSupabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: req.headers.get('Authorization')! } } }
+    )
+    const { data: { user } } = await userSupabaseClient.auth.getUser();
+    if (!user) throw new ApiError('UNAUTHORIZED', 'You must be signed in.', 401);
+
+    // Players cannot write to the games table themselves, so update it with the service role.
+    const adminSupabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SERVICE_ROLE_KEY')!
+    );
+
+    const { data: gameData, error: fetchError } = await adminSupabaseClient
+      .from('games')
+      .select('players, status')
+      .eq('id', gameId)
+      .single();
+
+    if (fetchError || !gameData) throw new ApiError('NOT_FOUND', 'Game not found.', 404);
+    if (gameData.status !== 'waiting') throw new ApiError('CONFLICT', 'Game has already started.', 409);
+    const seatedPlayers = readSeats(gameData.players);
+    if (!seatedPlayers.some(p => p.userId === user.id)) {
+      throw new ApiError('FORBIDDEN', 'You have not joined this game.', 403);
+    }
+
+    // Only save over the players we read, so a join or another player's change is never lost.
+    const players = seatedPlayers.map(p => p.userId === user.id ? { ...p, ready } : p);
+    const { data: updatedGame, error: updateError } = await adminSupabaseClient
+      .from('games')
+      .update({ players })
+      .eq('id', gameId)
+      .eq('status', 'waiting')
+      .eq('players', JSON.stringify(seatedPlayers))
+      .select('id')
+      .maybeSingle();
+
+    if (updateError) throw updateError;
+    if (!updatedGame) throw new ApiError('CONFLICT', 'The game changed before you were marked ready. Try again.', 409);
+
+    return new Response(JSON.stringify({ gameId, ready }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    })
+  } catch (error) {
+    return errorResponse(error);
+  }
+})
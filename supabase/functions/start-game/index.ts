@@ -0,0 +1,103 @@
+// supabase/functions/start-game/index.ts
+
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '_shared/cors.ts'
+import { ApiError, errorResponse, readJsonBody } from '_shared/errors.ts'
+import { toStoredState } from '_shared/gameState.ts'
+import { readSeats } from '_shared/seats.ts'
+import { Game } from '_shared/engine/game.ts'
+import { AIDifficulty } from '_shared/engine/types.ts'
+import { playAITurns } from '_shared/aiTurns.ts'
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { gameId } = await readJsonBody(req);
+    if (typeof gameId !== 'string' || gameId === '') {
+        throw new ApiError('BAD_REQUEST', 'gameId is required.');
+    }
+
+    const userSupabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: req.headers.get('Authorization')! } } }
+    )
+    const { data: { user } } = await userSupabaseClient.auth.getUser();
+    if (!user) throw new ApiError('UNAUTHORIZED', 'You must be signed in.', 401);
+
+    const adminSupabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SERVICE_ROLE_KEY')!
+    );
+
+    // 1. Fetch the waiting game. Only its host may start it.
+    const { data: gameData, error: fetchError } = await adminSupabaseClient
+      .from('games')
+      .select('host_id, players, game_state, status')
+      .eq('id', gameId)
+      .single();
+
+    if (fetchError || !gameData) throw new ApiError('NOT_FOUND', 'Game not found.', 404);
+    if (gameData.host_id !== user.id) throw new ApiError('FORBIDDEN', 'Only the host can start the game.', 403);
+    if (gameData.status !== 'waiting') throw new ApiError('CONFLICT', 'Game has already started.', 409);
+    const seatedPlayers = readSeats(gameData.players);
+
+    // 2. Everyone who joined must be ready. The host says so by pressing Start.
+    const notReady = seatedPlayers.filter(p => p.userId !== user.id && !p.ready);
+    if (notReady.length > 0) {
+      throw new ApiError('CONFLICT', `Waiting for ${notReady.map(p => p.color).join(', ')} to be ready.`, 409);
+    }
+
+    // 3. Build the real game. The state saved when the game was created holds the host's mode,
+    // rules, format and board, and a seat for each player the host asked for. Seats nobody took
+    // are played by the AI if the host asked for fill-ins (`isAI`), and are left out otherwise.
+    const setup = Game.fromJSON(gameData.game_state);
+    const joinedColors = new Set(seatedPlayers.map(p => p.color));
+    if (seatedPlayers.some(p => !setup.players.some(seat => seat.color === p.color))) {
+      throw new ApiError('INVALID_GAME_STATE', 'A player has no seat in the game state.', 422);
+    }
+    const seats = setup.players.filter(p => joinedColors.has(p.color) || p.isAI);
+    if (seats.length < 2) {
+      throw new ApiError('CONFLICT', 'At least two players are needed to start.', 409);
+    }
+    const game = new Game(
+      setup.getGameMode(),
+      seats.map(p => p.color),
+      setup.getSettings(),
+      undefined,
+      { board: setup.board, format: setup.getFormat() },
+    );
+    const gameState = game.toJSON();
+    // The lobby does not offer Expert fill-ins: its search is too slow to run for every AI turn in a request.
+    gameState.aiDifficulty = setup.aiDifficulty === AIDifficulty.Expert ? AIDifficulty.Hard : setup.aiDifficulty;
+    gameState.players = gameState.players.map(p => ({ ...p, isAI: !joinedColors.has(p.color) }));
+    const startingGame = Game.fromJSON(gameState);
+    // Player ids follow the seats that are left, so the players list must use the same ones for turns to match.
+    const players = seatedPlayers.map(p => ({ ...p, id: startingGame.players.find(s => s.color === p.color)!.id }));
+    // The host sits first, but play on in case an AI has the first turn.
+    playAITurns(startingGame);
+
+    // 4. Start it, unless someone else already has.
+    const { data: startedGame, error: updateError } = await adminSupabaseClient
+      .from('games')
+      .update({ status: 'in_progress', players, game_state: toStoredState(startingGame) })
+      .eq('id', gameId)
+      .eq('status', 'waiting')
+      .select('id')
+      .maybeSingle();
+
+    if (updateError) throw updateError;
+    if (!startedGame) throw new ApiError('CONFLICT', 'Game has already started.', 409);
+
+    return new Response(JSON.stringify({ gameId: startedGame.id }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    })
+  } catch (error) {
+    return errorResponse(error);
+  }
+})